@@ -0,0 +1,90 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import type { InjectedAccountWithMeta } from "@polkadot/extension-inject/types"
+import type BigNumber from "bignumber.js"
+import { ChevronDown } from "lucide-react"
+
+import { getIdenticonCircles } from "@/lib/identicon"
+import { DOT_DECIMALS, formatUnits } from "@/lib/networks"
+import { isEthereumAccount } from "@/lib/wallets"
+
+interface AccountSelectorProps {
+  accounts: InjectedAccountWithMeta[]
+  selectedAccount: InjectedAccountWithMeta
+  // DOT held across the connected chains, in planck; missing while loading
+  totals: Record<string, BigNumber>
+  onSelect: (account: InjectedAccountWithMeta) => void
+}
+
+export const Identicon: React.FC<{ address: string; size?: number }> = ({ address, size = 32 }) => {
+  const circles = useMemo(() => getIdenticonCircles(address), [address])
+
+  return (
+    <svg width={size} height={size} viewBox="0 0 64 64" className="flex-shrink-0">
+      {circles.map(({ cx, cy, r, fill }, index) => (
+        <circle key={index} cx={cx} cy={cy} r={r} fill={fill} />
+      ))}
+    </svg>
+  )
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}…${address.slice(-6)}`
+
+const AccountRow: React.FC<{ account: InjectedAccountWithMeta; total?: BigNumber }> = ({ account, total }) => (
+  <div className="flex items-center gap-3 min-w-0 flex-1">
+    <Identicon address={account.address} />
+    <div className="min-w-0 flex-1 text-left">
+      <p className="text-sm font-medium text-gray-900 truncate">{account.meta.name ?? "Unnamed account"}</p>
+      <p className="font-mono text-xs text-gray-500 truncate" title={account.address}>{shortAddress(account.address)}</p>
+    </div>
+    <div className="text-right flex-shrink-0">
+      <p className="text-sm text-gray-900">{total ? `${formatUnits(total, DOT_DECIMALS)} DOT` : "…"}</p>
+      <p className="text-xs text-gray-500">
+        {account.meta.source}
+        {isEthereumAccount(account) && " · EVM"}
+      </p>
+    </div>
+  </div>
+)
+
+export const AccountSelector: React.FC<AccountSelectorProps> = ({ accounts, selectedAccount, totals, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={accounts.length < 2}
+        className="w-full flex items-center gap-2 p-3 bg-gray-50 rounded-lg border border-gray-200 hover:bg-gray-100 disabled:hover:bg-gray-50 disabled:cursor-default"
+      >
+        <AccountRow account={selectedAccount} total={totals[selectedAccount.address]} />
+        {accounts.length > 1 && (
+          <ChevronDown className={`h-4 w-4 text-gray-500 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+        )}
+      </button>
+
+      {isOpen && (
+        <ul className="absolute z-10 mt-1 w-full max-h-72 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg divide-y divide-gray-100">
+          {accounts.map((account) => (
+            <li key={`${account.meta.source}:${account.address}`}>
+              <button
+                type="button"
+                onClick={() => {
+                  onSelect(account)
+                  setIsOpen(false)
+                }}
+                className={`w-full flex items-center p-3 hover:bg-gray-50 ${
+                  account.address === selectedAccount.address && account.meta.source === selectedAccount.meta.source ? "bg-blue-50" : ""
+                }`}
+              >
+                <AccountRow account={account} total={totals[account.address]} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
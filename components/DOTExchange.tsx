@@ -1,59 +1,82 @@
 "use client"
 
 import type React from "react"
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { ApiPromise, WsProvider } from "@polkadot/api"
-import { web3Accounts, web3Enable, web3FromAddress } from "@polkadot/extension-dapp"
 import type { InjectedAccountWithMeta } from "@polkadot/extension-inject/types"
-import { formatBalance } from "@polkadot/util"
-import { u8aToHex } from "@polkadot/util"
+import { formatBalance, u8aToHex } from "@polkadot/util"
 import { decodeAddress } from "@polkadot/util-crypto"
 import BigNumber from "bignumber.js"
 import toast, { Toaster } from "react-hot-toast"
 import { UniqueChain, UniqueChainInstance } from '@unique-nft/sdk';
-
-import { Wallet, Loader2, AlertCircle, RefreshCw, ArrowUpDown } from "lucide-react"
-
-// Correct decimals constants as per blockchain specs
-const DOT_DECIMALS = 10  // DOT always has 10 decimals on all chains
-const UNQ_DECIMALS = 18  // UNQ has 18 decimals (Unique native token)
-
-// DOT foreign asset collection ID on Unique Network
-const DOT_FOREIGN_ASSET_COLLECTION_ID = 437
-
-const MIN_DOT_TRANSFER = 0.001
-const MAX_DOT_TRANSFER = 1000
-
-interface NetworkConfig {
-  name: string
-  wsUrl: string
-  chainId?: number
-  decimals: number
-  symbol: string
-}
-
-const NETWORKS: Record<string, NetworkConfig> = {
-  polkadot: {
-    name: "Polkadot Relay",
-    wsUrl: "wss://rpc.polkadot.io",
-    decimals: DOT_DECIMALS,
-    symbol: "DOT",
-  },
-  assetHub: {
-    name: "Asset Hub",
-    wsUrl: "wss://polkadot-asset-hub-rpc.polkadot.io",
-    chainId: 1000,
-    decimals: DOT_DECIMALS,
-    symbol: "DOT",
-  },
-  unique: {
-    name: "Unique Network",
-    wsUrl: "wss://ws.unique.network",
-    chainId: 2037,
-    decimals: UNQ_DECIMALS,
-    symbol: "UNQ",
-  },
-}
+import { describeWeightLimit, type XcmWeightLimit } from "@/lib/xcm"
+import { dryRunTransfer, type DryRunResult } from "@/lib/dry-run"
+import { estimateDestinationFee, estimateTransferFees, type FeeEstimate } from "@/lib/fees"
+import { getEvmMirrorAddress, queryForeignAssetInfo, type ForeignAssetInfo } from "@/lib/unique"
+import { parseRecipient } from "@/lib/recipient"
+import { parseBatchInput } from "@/lib/batch"
+import { parseAmount, toPlanck } from "@/lib/amount"
+import { loadLimitsConfig, resolveTransferLimits, type LimitsConfig } from "@/lib/limits"
+import { clearSession, hasStoredSession, loadSession, saveSession } from "@/lib/session"
+import {
+  getExistentialDeposit,
+  getTransferableBalance,
+  queryAccountExists,
+  queryTotalBalances,
+  toAccountBalances,
+} from "@/lib/balances"
+import {
+  DOT_DECIMALS,
+  DOT_FOREIGN_ASSET_COLLECTION_ID,
+  NETWORKS,
+  ROUTES,
+  UNQ_DECIMALS,
+  formatUnits,
+  type TransferDirection,
+} from "@/lib/networks"
+import { getNetworkApi, getTransferHops, supportsRelayReserveTransfer, type XcmApis } from "@/lib/transfer"
+import {
+  isTransferCancellable,
+  isTransferSettled,
+  useXcmTransfer,
+  type PendingSpend,
+  type TransferSummary,
+  type XcmTransferState,
+} from "@/hooks/use-xcm-transfer"
+import { TransferConfirmation } from "@/components/TransferConfirmation"
+import { TransferQueue } from "@/components/TransferQueue"
+import { AccountSelector } from "@/components/AccountSelector"
+import {
+  connectWallet as enableWallet,
+  disconnectWallet,
+  getInstalledWallets,
+  isEthereumAccount,
+  isWatchOnlyAccount,
+  toAccountsWithMeta,
+  toWatchOnlyAccount,
+  type WalletInfo,
+} from "@/lib/wallets"
+
+import { Wallet, Loader2, AlertCircle, RefreshCw, ArrowUpDown, CheckCircle2, XCircle } from "lucide-react"
+
+// DOT amount under which transfers are signed without the confirmation dialog
+const CONFIRM_THRESHOLD_KEY = "dot-exchange:confirm-below"
+
+// URL parameter carrying a watch-only address, so the view can be shared
+const WATCH_PARAM = "address"
+
+// Wait for typing to settle before dry-running the transfer
+const DRY_RUN_DEBOUNCE = 600
+
+// Headroom over the priced fee when filling in a "Max" amount, in percent
+const MAX_FEE_MARGIN = 110
+
+const AMOUNT_PRESETS = [
+  { label: "25%", share: 0.25 },
+  { label: "50%", share: 0.5 },
+  { label: "75%", share: 0.75 },
+  { label: "Max", share: 1 },
+]
 
 interface Balance {
   free: string
@@ -62,6 +85,7 @@ interface Balance {
   raw: {
     free: string
     reserved: string
+    frozen: string
   }
 }
 
@@ -70,18 +94,25 @@ interface ForeignAssetBalance {
   raw: string
 }
 
-interface TransactionStatus {
-  status: "pending" | "success" | "error" | "idle"
-  message?: string
-  hash?: string
-}
-
 interface DOTExchangeProps {
   onStateChange?: (account: InjectedAccountWithMeta | null, polkadotApi: ApiPromise | null, uniqueApi: ApiPromise | null, assetHubApi: ApiPromise | null) => void
 }
 
 export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
   const [selectedAccount, setSelectedAccount] = useState<InjectedAccountWithMeta | null>(null)
+  // Every account the connected wallet exposes, kept current by its accounts subscription
+  const [accounts, setAccounts] = useState<InjectedAccountWithMeta[]>([])
+  // DOT per account across the connected chains, in planck
+  const [accountTotals, setAccountTotals] = useState<Record<string, BigNumber>>({})
+  const unsubscribeAccounts = useRef<(() => void) | null>(null)
+  // Wallets injected into the page, and the one the accounts come from
+  const [installedWallets, setInstalledWallets] = useState<WalletInfo[]>([])
+  const [connectedWallet, setConnectedWallet] = useState<WalletInfo | null>(null)
+  const [lastWalletSource, setLastWalletSource] = useState<string | null>(null)
+  // Whether wallet, account, route and amount draft are written to this device: once a wallet was
+  // connected, and not again after "forget" until the next connection
+  const [rememberSession, setRememberSession] = useState(false)
+  const hasRestoredWallet = useRef(false)
   const [polkadotApi, setPolkadotApi] = useState<ApiPromise | null>(null)
   const [assetHubApi, setAssetHubApi] = useState<ApiPromise | null>(null)
   const [uniqueApi, setUniqueApi] = useState<ApiPromise | null>(null)
@@ -92,14 +123,99 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
   const [uniqueDotBalance, setUniqueDotBalance] = useState<ForeignAssetBalance | null>(null)
 
   const [transferAmount, setTransferAmount] = useState<string>("")
-  const [transferDirection, setTransferDirection] = useState<"fromPolkadot" | "fromAssetHub">("fromPolkadot")
-  const [transactionStatus, setTransactionStatus] = useState<TransactionStatus>({ status: "idle" })
+  const [recipientInput, setRecipientInput] = useState<string>("")
+  const [batchMode, setBatchMode] = useState(false)
+  const [batchInput, setBatchInput] = useState<string>("")
+  const [transferDirection, setTransferDirection] = useState<TransferDirection>("fromPolkadot")
+  const [dryRunResult, setDryRunResult] = useState<DryRunResult | null>(null)
+  const [isDryRunning, setIsDryRunning] = useState(false)
+  const [feeEstimate, setFeeEstimate] = useState<FeeEstimate | null>(null)
+  const [destinationFee, setDestinationFee] = useState<BigNumber | null>(null)
+  const [weightLimit, setWeightLimit] = useState<XcmWeightLimit | null>(null)
+  const [uniqueDotAsset, setUniqueDotAsset] = useState<ForeignAssetInfo | null>(null)
+  // Whether the recipient already has an account on the destination, null while unknown
+  const [recipientExists, setRecipientExists] = useState<boolean | null>(null)
+  // Keep the source account above its existential deposit instead of allowing it to be reaped
+  const [keepAlive, setKeepAlive] = useState(true)
+  const [isComputingPreset, setIsComputingPreset] = useState(false)
+  // Transfer shown in the confirmation dialog, with the callback that lets the hook sign or cancel it
+  const [pendingConfirmation, setPendingConfirmation] = useState<{
+    summary: TransferSummary
+    resolve: (confirmed: boolean) => void
+  } | null>(null)
+  const [confirmThreshold, setConfirmThreshold] = useState<string | null>(null)
+  // Queued batch whose progress the batch rows show
+  const [batchTransferId, setBatchTransferId] = useState<number | null>(null)
+  // Deployment overrides for the transfer limits, null until loaded or when there are none
+  const [limitsConfig, setLimitsConfig] = useState<LimitsConfig | null>(null)
 
   const [isConnecting, setIsConnecting] = useState(false)
+  // Address typed into the watch-only field
+  const [watchInput, setWatchInput] = useState("")
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [connectionErrors, setConnectionErrors] = useState<string[]>([])
   const [isBrowser, setIsBrowser] = useState(false)
 
+  // Recipient on the destination chain, re-encoded with its SS58 prefix
+  const { recipient, recipientError } = useMemo(() => {
+    if (!recipientInput.trim()) return { recipient: null, recipientError: null }
+
+    const destination = NETWORKS[ROUTES[transferDirection].destination]
+    try {
+      return { recipient: parseRecipient(recipientInput, destination.ss58Format, destination.supportsEvm), recipientError: null }
+    } catch (error) {
+      return { recipient: null, recipientError: error instanceof Error ? error.message : "Invalid address" }
+    }
+  }, [recipientInput, transferDirection])
+
+  // H160 accounts can receive DOT on Unique, but cannot send it from any route here
+  const isEthereumSelected = !!selectedAccount && isEthereumAccount(selectedAccount)
+  const isWatchOnly = !!selectedAccount && isWatchOnlyAccount(selectedAccount)
+  const sourceRestriction = useMemo(() => {
+    if (isWatchOnly) return "Watch-only mode: balances and history are shown, signing is disabled. Connect a wallet holding this account to send from it."
+    if (!isEthereumSelected) return null
+
+    const source = ROUTES[transferDirection].source
+    if (source === "unique") {
+      return "DOT held by an EVM account on Unique Network can only be moved with an EVM transaction. Pick a Polkadot account to send from Unique Network."
+    }
+    return `${NETWORKS[source].name} only has 32-byte accounts, so an Ethereum (H160) account holds no DOT there. Pick a Polkadot account to send from ${NETWORKS[source].name}; this account can still receive DOT on Unique Network.`
+  }, [isWatchOnly, isEthereumSelected, transferDirection])
+
+  // Exact amount in planck, parsed without floating point; "," and "." both work as decimal separator
+  const { amountPlanck, amountError } = useMemo(() => {
+    if (!transferAmount.trim()) return { amountPlanck: null, amountError: null }
+
+    try {
+      return { amountPlanck: parseAmount(transferAmount, DOT_DECIMALS), amountError: null }
+    } catch (error) {
+      return { amountPlanck: null, amountError: error instanceof Error ? error.message : "Invalid amount" }
+    }
+  }, [transferAmount])
+
+  // Limits for the selected route, from the deployment's config when it has one
+  const transferLimits = useMemo(
+    () => resolveTransferLimits(transferDirection, limitsConfig),
+    [transferDirection, limitsConfig]
+  )
+
+  const isAmountValid = !!amountPlanck && amountPlanck.gte(transferLimits.min.planck) && amountPlanck.lte(transferLimits.max.planck)
+
+  // Batch payouts only go out from the chains that hold DOT natively, to Unique
+  const isBatchAvailable = transferDirection === "fromPolkadot" || transferDirection === "fromAssetHub"
+  const isBatch = batchMode && isBatchAvailable
+
+  const batch = useMemo(() => {
+    const destination = NETWORKS[ROUTES[transferDirection].destination]
+    return parseBatchInput(batchInput, {
+      ss58Format: destination.ss58Format,
+      allowEvm: destination.supportsEvm,
+      decimals: DOT_DECIMALS,
+      min: transferLimits.min.value,
+      max: transferLimits.max.value,
+    })
+  }, [batchInput, transferDirection, transferLimits])
+
   // Check if we're in browser environment
   useEffect(() => {
     if (onStateChange) {
@@ -112,9 +228,7 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
   }, [])
 
   // Function to get DOT balance on Unique Network using SDK
-  const getDotBalanceOnUnique = useCallback(async () => {
-    if (!selectedAccount) return null;
-
+  const getDotBalanceOnUnique = useCallback(async (address: string) => {
     try {
       const uniqueChain = UniqueChain({ 
         baseUrl: 'https://rest.unique.network/v2/unique', 
@@ -125,7 +239,7 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
       // Get DOT foreign asset balance using SDK
       const balanceResult = await uniqueChain.fungible.getAccountBalance({
         collectionId: DOT_FOREIGN_ASSET_COLLECTION_ID, // 437
-        address: selectedAccount.address
+        address,
       });
 
       console.log("Unique SDK DOT balance result:", balanceResult);
@@ -158,7 +272,7 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
         raw: "0",
       };
     }
-  }, [selectedAccount]);
+  }, []);
 
   // Initialize APIs with better error handling
   const initializeAPIs = useCallback(async () => {
@@ -211,8 +325,11 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
     }
   }, [isBrowser])
 
-  // Connect to Polkadot extension
-  const connectWallet = async () => {
+  // Connect to the chosen wallet only; other installed wallets are not asked for access.
+  // silent: restoring the last session on load, account: the address to select if still there
+  const connectWallet = async (wallet: WalletInfo, { silent = false, account }: { silent?: boolean; account?: string } = {}) => {
+    // A wallet chosen by hand replaces the session that would otherwise be restored
+    hasRestoredWallet.current = true
     setIsConnecting(true)
 
     try {
@@ -220,39 +337,132 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
         throw new Error("Browser environment required")
       }
 
-      console.log("Attempting to connect to Polkadot extension...")
-      const extensions = await web3Enable("DOT Exchange")
-
-      if (extensions.length === 0) {
-        throw new Error("No Polkadot extension found. Please install Polkadot.js extension.")
-      }
+      console.log(`Attempting to connect to ${wallet.name}...`)
+      const extension = await enableWallet(wallet)
 
-      console.log("Extension found, getting accounts...")
-      const accountList = await web3Accounts()
+      console.log("Extension enabled, getting accounts...")
+      const accountList = toAccountsWithMeta(wallet.source, await extension.accounts.get())
 
       if (accountList.length === 0) {
-        throw new Error("No accounts found in extension. Please create an account first.")
+        disconnectWallet()
+        throw new Error(`No accounts found in ${wallet.name}. Please create or import an account first.`)
       }
 
       console.log("Found accounts:", accountList.length)
-      setSelectedAccount(accountList[0])
-      toast.success("Wallet connected successfully")
+      const initialAccount = accountList.find(({ address }) => address === account) ?? accountList[0]
+      saveSession({ wallet: wallet.source })
+      setRememberSession(true)
+      setLastWalletSource(wallet.source)
+      setConnectedWallet(wallet)
+      setAccounts(accountList)
+      setSelectedAccount(initialAccount)
+      setRecipientInput((current) => current || initialAccount.address)
+
+      // Follow accounts being added to or removed from the wallet without a reload
+      unsubscribeAccounts.current?.()
+      unsubscribeAccounts.current = extension.accounts.subscribe((injected) => {
+        const updated = toAccountsWithMeta(wallet.source, injected)
+        console.log("Wallet accounts changed:", updated.length)
+        setAccounts(updated)
+        setSelectedAccount((current) =>
+          updated.find((account) => account.address === current?.address) ?? updated[0] ?? null
+        )
+      })
+
+      if (!silent) toast.success(`${wallet.name} connected`)
     } catch (error) {
       console.error("Failed to connect wallet:", error)
-      toast.error(error instanceof Error ? error.message : "Failed to connect wallet")
+      if (!silent) toast.error(error instanceof Error ? error.message : "Failed to connect wallet")
     } finally {
       setIsConnecting(false)
     }
   }
 
+  // Forget the wallet and its accounts; the cleared account also resets the history below
+  const disconnect = (message = "Wallet disconnected") => {
+    unsubscribeAccounts.current?.()
+    unsubscribeAccounts.current = null
+    disconnectWallet()
+
+    // Transfers not signed yet could no longer be signed
+    transferQueue
+      .filter(({ phase }) => isTransferCancellable(phase))
+      .forEach(({ id }) => cancelTransfer(id))
+
+    setRecipientInput((current) => current === selectedAccount?.address ? "" : current)
+    setSelectedAccount(null)
+    setAccounts([])
+    setAccountTotals({})
+    setConnectedWallet(null)
+    if (rememberSession) saveSession({ account: undefined })
+    toast.success(message)
+  }
+
+  // Show any address read-only, without a wallet; the URL follows so the view can be shared
+  const watchAddress = (input: string) => {
+    try {
+      const account = toWatchOnlyAccount(input)
+      // A shared link shows what it points to rather than the session of this device
+      hasRestoredWallet.current = true
+      setAccounts([account])
+      setSelectedAccount(account)
+      setWatchInput("")
+
+      const url = new URL(window.location.href)
+      url.searchParams.set(WATCH_PARAM, account.address)
+      window.history.replaceState(null, "", url)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Invalid address")
+    }
+  }
+
+  // Leave the stored session alone: the wallet of this device comes back once the view is left
+  const stopWatching = () => {
+    const url = new URL(window.location.href)
+    url.searchParams.delete(WATCH_PARAM)
+    window.history.replaceState(null, "", url)
+
+    setRecipientInput((current) => current === selectedAccount?.address ? "" : current)
+    setSelectedAccount(null)
+    setAccounts([])
+    setAccountTotals({})
+    hasRestoredWallet.current = false
+    restoreSession()
+  }
+
+  const copyWatchLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast.success("Link copied to clipboard")
+    } catch (error) {
+      console.error("Failed to copy link:", error)
+      toast.error("Could not copy the link")
+    }
+  }
+
+  // Disconnect and remove everything this app stored, until the user connects again
+  const forgetDevice = () => {
+    if (selectedAccount) disconnect("This device no longer remembers your session")
+    else toast.success("This device no longer remembers your session")
+
+    clearSession()
+    localStorage.removeItem(CONFIRM_THRESHOLD_KEY)
+    setRememberSession(false)
+    setLastWalletSource(null)
+    setConfirmThreshold(null)
+    setTransferDirection("fromPolkadot")
+    setTransferAmount("")
+  }
+
   const fetchBalances = useCallback(async () => {
     if (!selectedAccount) return
 
     try {
       console.log("Fetching balances for account:", selectedAccount.address)
+      const isEthereum = isEthereumAccount(selectedAccount)
 
       // Polkadot balance - DOT with 10 decimals
-      if (polkadotApi) {
+      if (polkadotApi && !isEthereum) {
         try {
           const polkadotAccountInfo: any = await polkadotApi.query.system.account(selectedAccount.address)
 
@@ -272,6 +482,7 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
             raw: {
               free: polkadotFree.toString(),
               reserved: polkadotReserved.toString(),
+              frozen: toAccountBalances(polkadotAccountInfo.data).frozen.toFixed(),
             },
           })
         } catch (error) {
@@ -281,7 +492,7 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
       }
 
       // Asset Hub balance - DOT with 10 decimals
-      if (assetHubApi) {
+      if (assetHubApi && !isEthereum) {
         try {
           const assetHubAccountInfo: any = await assetHubApi.query.system.account(selectedAccount.address);
 
@@ -307,6 +518,7 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
             raw: {
               free: assetHubFree.toString(),
               reserved: assetHubReserved.toString(),
+              frozen: toAccountBalances(assetHubAccountInfo.data).frozen.toFixed(),
             },
           });
 
@@ -319,7 +531,10 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
       // Unique Network balances
       if (uniqueApi) {
         try {
-          const uniqueAccountInfo: any = await uniqueApi.query.system.account(selectedAccount.address)
+          // UNQ of an EVM account sits on its mirror substrate account
+          const uniqueAccountInfo: any = await uniqueApi.query.system.account(
+            isEthereum ? getEvmMirrorAddress(selectedAccount.address) : selectedAccount.address
+          )
 
           const uniqueFree = uniqueAccountInfo.data.free
           const uniqueReserved = uniqueAccountInfo.data.reserved
@@ -337,6 +552,7 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
             raw: {
               free: uniqueFree.toString(),
               reserved: uniqueReserved.toString(),
+              frozen: toAccountBalances(uniqueAccountInfo.data).frozen.toFixed(),
             },
           })
         } catch (error) {
@@ -348,7 +564,7 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
       // DOT foreign asset on Unique Network - using only SDK
       try {
         console.log("Fetching DOT balance on Unique via SDK...")
-        const dotBalance = await getDotBalanceOnUnique();
+        const dotBalance = await getDotBalanceOnUnique(selectedAccount.address);
         setUniqueDotBalance(dotBalance);
         
         console.log("DOT balance on Unique Network (via SDK):", {
@@ -370,12 +586,44 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
     }
   }, [selectedAccount, polkadotApi, assetHubApi, uniqueApi, getDotBalanceOnUnique])
 
+  // Totals for the account selector; DOT on Unique lives in the foreign asset collection
+  const fetchAccountTotals = useCallback(async () => {
+    if (accounts.length === 0) return
+
+    const addresses = accounts.map(({ address }) => address)
+    // H160 accounts have nothing on the relay or Asset Hub, and would fail the whole multi query
+    const substrate = accounts.filter((account) => !isEthereumAccount(account)).map(({ address }) => address)
+    const [relay, assetHub, unique] = await Promise.all([
+      polkadotApi ? queryTotalBalances(polkadotApi, substrate) : null,
+      assetHubApi ? queryTotalBalances(assetHubApi, substrate) : null,
+      Promise.all(addresses.map((address) => getDotBalanceOnUnique(address))),
+    ])
+
+    setAccountTotals(Object.fromEntries(addresses.map((address, index) => {
+      const substrateIndex = substrate.indexOf(address)
+      return [
+        address,
+        new BigNumber(relay?.[substrateIndex] ?? 0)
+          .plus(assetHub?.[substrateIndex] ?? 0)
+          .plus(unique[index].raw),
+      ]
+    })))
+  }, [accounts, polkadotApi, assetHubApi, getDotBalanceOnUnique])
+
+  // Switch the account used for balances and signing; a recipient that was the old account follows along
+  const selectAccount = (account: InjectedAccountWithMeta) => {
+    if (selectedAccount && account.address !== selectedAccount.address) {
+      setRecipientInput((current) => current === selectedAccount.address ? account.address : current)
+    }
+    setSelectedAccount(account)
+  }
+
   const refreshBalances = async () => {
     if (!selectedAccount) return
     
     setIsRefreshing(true)
     try {
-      await fetchBalances()
+      await Promise.all([fetchBalances(), fetchAccountTotals()])
       toast.success("Balances refreshed")
     } catch (error) {
       toast.error("Failed to refresh balances")
@@ -384,301 +632,523 @@ export const DOTExchange: React.FC<DOTExchangeProps> = ({ onStateChange }) => {
     }
   }
 
-  const executeTransfer = async () => {
-    if (!selectedAccount || !transferAmount) return
-
-    setTransactionStatus({ status: "pending", message: "Validating transfer..." })
+  // Refuse transfers that would drop the source account below its existential deposit in keep-alive mode
+  const validateKeepAlive = (api: ApiPromise | null, remaining: BigNumber, decimals: number, symbol: string) => {
+    if (!keepAlive || !api) return
 
-    try {
-      console.log("Starting transfer:", { direction: transferDirection, amount: transferAmount })
+    const existentialDeposit = getExistentialDeposit(api)
+    if (remaining.lt(existentialDeposit)) {
+      throw new Error(
+        `This transfer would leave ${formatUnits(remaining, decimals)} ${symbol}, below the existential deposit of ${formatUnits(existentialDeposit, decimals)} ${symbol}. Lower the amount or allow the account to be reaped.`
+      )
+    }
+  }
 
-      const transferAmountNum = parseFloat(transferAmount)
-      
-      if (transferAmountNum < MIN_DOT_TRANSFER) {
-        throw new Error(`Minimum transfer amount is ${MIN_DOT_TRANSFER} DOT`)
+  // Read when the transfer is next in line, so earlier transfers already in a block are accounted for;
+  // those still in the pool are subtracted as `pending`. On Unique, DOT sits in foreign asset
+  // collection 437 while the extrinsic and delivery fees are paid in UNQ.
+  const validateSourceBalance = async (
+    account: InjectedAccountWithMeta,
+    direction: TransferDirection,
+    amount: BigNumber,
+    fees: FeeEstimate,
+    pending: PendingSpend
+  ) => {
+    const sourceKey = ROUTES[direction].source
+    const sourceApi = getNetworkApi(apis, sourceKey)
+    if (!sourceApi) return
+
+    const { data }: any = await sourceApi.query.system.account(account.address)
+    const balances = toAccountBalances(data)
+    // What can leave the account, as for the max button; keep-alive is checked on the free balance below
+    const transferable = getTransferableBalance(balances, getExistentialDeposit(sourceApi), false)
+    const afterPending = pending.amount.gt(0) ? " after earlier transfers still being sent" : ""
+
+    if (sourceKey === "unique") {
+      const availableDot = new BigNumber((await getDotBalanceOnUnique(account.address)).raw).minus(pending.amount)
+      if (availableDot.lt(amount)) {
+        throw new Error(
+          `Insufficient DOT on Unique. Available${afterPending}: ${formatUnits(availableDot, DOT_DECIMALS)} DOT, Required: ${formatUnits(amount, DOT_DECIMALS)} DOT`
+        )
       }
-      
-      if (transferAmountNum > MAX_DOT_TRANSFER) {
-        throw new Error(`Maximum transfer amount is ${MAX_DOT_TRANSFER} DOT`)
+
+      const availableUnq = transferable.minus(pending.fees)
+      if (availableUnq.lt(fees.total)) {
+        throw new Error(
+          `Insufficient UNQ for fees. Available${afterPending}: ${formatUnits(availableUnq, UNQ_DECIMALS)} UNQ, Required: ~${formatUnits(fees.total, UNQ_DECIMALS)} UNQ`
+        )
       }
 
-      // Calculate amount with correct DOT decimals (10)
-      const amount = new BigNumber(transferAmount).multipliedBy(
-        new BigNumber(10).pow(DOT_DECIMALS)
+      validateKeepAlive(sourceApi, balances.free.minus(pending.fees).minus(fees.total), UNQ_DECIMALS, "UNQ")
+      return
+    }
+
+    const availableBalance = transferable.minus(pending.amount).minus(pending.fees)
+    const requiredAmount = amount.plus(fees.total)
+
+    if (availableBalance.lt(requiredAmount)) {
+      throw new Error(
+        `Insufficient balance. Available${afterPending}: ${formatUnits(availableBalance, DOT_DECIMALS)} DOT, Required: ~${formatUnits(requiredAmount, DOT_DECIMALS)} DOT (including fees)`
       )
+    }
 
-      console.log("Calculated amount:", {
-        input: transferAmount,
-        calculated: amount.toString(),
-        decimals: DOT_DECIMALS
-      })
+    validateKeepAlive(sourceApi, balances.free.minus(pending.amount).minus(pending.fees).minus(requiredAmount), DOT_DECIMALS, "DOT")
+  }
 
-      const injector = await web3FromAddress(selectedAccount.address)
-
-      if (transferDirection === "fromPolkadot") {
-        // Polkadot to Unique transfer
-        // Validate balance for Polkadot to Unique transfer
-        if (polkadotBalance) {
-          const availableBalance = new BigNumber(polkadotBalance.raw.free)
-          const feeEstimate = new BigNumber(10).pow(DOT_DECIMALS - 2) // 0.01 DOT estimate
-          const requiredAmount = amount.plus(feeEstimate)
-          
-          if (availableBalance.lt(requiredAmount)) {
-            throw new Error(
-              `Insufficient balance. Available: ${polkadotBalance.free} DOT, Required: ~${formatBalance(
-                requiredAmount.toString(),
-                { decimals: DOT_DECIMALS, withSi: false }
-              )} DOT (including fees)`
-            )
-          }
-        }
+  const apis = useMemo<XcmApis>(() => ({
+    polkadot: polkadotApi,
+    assetHub: assetHubApi,
+    unique: uniqueApi,
+  }), [polkadotApi, assetHubApi, uniqueApi])
 
-        if (!polkadotApi) throw new Error("Polkadot API not connected")
+  // Refresh balances once a transfer has settled either way
+  const handleTransferSettled = (state: XcmTransferState) => {
+    const isBatchTransfer = state.recipients.length > 1
 
-        // Destination: Unique Network parachain (from relay chain perspective)
-        const destination = {
-          V4: {
-            parents: 0,
-            interior: { X1: [{ Parachain: NETWORKS.unique.chainId }] },
-          },
-        }
+    if (state.phase === "delivered") {
+      toast.success(isBatchTransfer ? `Batch completed: ${state.recipients.length} transfers` : "Transfer completed")
+    } else {
+      toast.error(state.message ?? "Transfer failed")
+    }
 
-        // Beneficiary: account on Unique Network
-        const addressBytes = decodeAddress(selectedAccount.address)
-        const beneficiary = {
-          V4: {
-            parents: 0,
-            interior: { X1: [{ AccountId32: { id: u8aToHex(addressBytes) } }] },
-          },
-        }
+    setTimeout(fetchBalances, 3000)
+  }
 
-        // Assets: DOT from relay chain (parents: 0, interior: 'Here')
-        const assets = {
-          V4: [
-            {
-              id: {
-                parents: 0,        // Relay chain perspective
-                interior: 'Here',  // DOT on relay chain
-              },
-              fun: { Fungible: amount.toString() },
-            },
-          ],
-        }
+  const {
+    queue: transferQueue,
+    enqueue,
+    cancel: cancelTransfer,
+    dismiss: dismissTransfer,
+    buildTransfer,
+    dryRunChains,
+  } = useXcmTransfer({ apis, account: selectedAccount, onSettled: handleTransferSettled })
+
+  // Dry-run the transfer on the source chain, replay its XCM on every chain we are connected to
+  // and price the source and delivery fees from the same built extrinsic
+  const runPreflight = useCallback(async () => {
+    if (!selectedAccount) return
 
-        console.log("XCM transfer configuration (Polkadot -> Unique):", {
-          destination,
-          beneficiary: beneficiary.V4.interior.X1[0].AccountId32.id,
-          amount: amount.toString(),
-          amountFormatted: formatBalance(amount.toString(), { decimals: DOT_DECIMALS, withSi: false })
-        })
+    if (!recipient || !amountPlanck || !isAmountValid || sourceRestriction) {
+      setDryRunResult(null)
+      setFeeEstimate(null)
+      setDestinationFee(null)
+      setWeightLimit(null)
+      return
+    }
 
-const tx = polkadotApi.tx.xcmPallet.limitedReserveTransferAssets(
-  destination,
-  beneficiary,
-  assets,
-  0,
-  { Limited: { refTime: "5000000000", proofSize: "200000" } }
-)
-        setTransactionStatus({ status: "pending", message: "Signing transaction..." })
-
-        console.log("Submitting transaction...")
-        const unsub = await tx.signAndSend(selectedAccount.address, { signer: injector.signer }, (result) => {
-          console.log("Transaction status:", result.status.type)
-
-          if (result.status.isInBlock) {
-            console.log("Transaction included in block:", result.status.asInBlock.toString())
-            
-            const success = result.events.some(({ event }) => 
-              event.section === 'system' && event.method === 'ExtrinsicSuccess'
-            )
-            
-            if (success) {
-              setTransactionStatus({
-                status: "success",
-                message: `Successfully transferred ${transferAmount} DOT to Unique Network`,
-                hash: result.txHash.toString(),
-              })
-              toast.success(`Transfer completed: ${transferAmount} DOT`)
-            } else {
-              setTransactionStatus({
-                status: "error", 
-                message: "Transaction failed - check blockchain explorer for details",
-              })
-              toast.error("Transfer failed")
-            }
-            
-            unsub()
-
-            // Refresh balances after successful transaction
-            setTimeout(() => {
-              fetchBalances()
-              setTransferAmount("")
-              setTimeout(() => setTransactionStatus({ status: "idle" }), 5000)
-            }, 3000)
-          } else if (result.isError) {
-            console.error("Transaction error:", result)
-            setTransactionStatus({
-              status: "error",
-              message: "Transaction failed",
-            })
-            toast.error("Transfer failed")
-            unsub()
-          }
-        })
+    setIsDryRunning(true)
+    try {
+      const amount = amountPlanck
+      const { api, tx, xcmVersion, weightLimit } = await buildTransfer(transferDirection, amount, recipient)
+      setWeightLimit(weightLimit)
 
-      } else {
-        // Asset Hub to Unique transfer
-if (assetHubBalance) {
-          const availableBalance = new BigNumber(assetHubBalance.free.replace(/[,\s]/g, ''))
-          const feeEstimate = new BigNumber(0.1) // Примерная комиссия XCM
-          const requiredAmount = new BigNumber(transferAmount).plus(feeEstimate)
-
-          if (availableBalance.lt(requiredAmount)) {
-            throw new Error(
-              `Insufficient balance. Available: ${assetHubBalance.free} DOT, Required: ~${requiredAmount.toFixed(4)} DOT (including fees)`
-            )
-          }
-        }
+      const sourceChainId = NETWORKS[ROUTES[transferDirection].source].chainId!
 
-        if (!assetHubApi) throw new Error("Asset Hub API not connected")
+      const result = await dryRunTransfer(sourceChainId, tx, selectedAccount.address, dryRunChains, xcmVersion)
+      console.log("Dry-run result:", result)
+      setDryRunResult(result)
 
-        // ======================= НАЧАЛО ИСПРАВЛЕНИЯ ==========================
-        // Создаем типы явно через API, чтобы избежать проблем с кодированием
-        // после обновлений рантайма. Это самый надежный способ.
+      try {
+        const fees = await estimateTransferFees(api, tx, selectedAccount.address, result.forwardedXcms)
+        console.log("Fee estimate:", {
+          sourceFee: fees.sourceFee.toString(),
+          deliveryFee: fees.deliveryFee.toString(),
+          deliveryFeeAvailable: fees.deliveryFeeAvailable,
+        })
+        setFeeEstimate(fees)
+      } catch (error) {
+        console.error("Fee estimation failed:", error)
+        setFeeEstimate(null)
+      }
+
+      // What the destination keeps from the transferred DOT to pay for BuyExecution
+      const destinationHop = getTransferHops(apis, transferDirection, recipient).at(-1)!
+      if (destinationHop.api) {
+        try {
+          const fee = await estimateDestinationFee(
+            destinationHop.api,
+            xcmVersion,
+            destinationHop.location,
+            amount.toString(),
+            destinationHop.incoming
+          )
+          console.log("Destination fee estimate:", fee?.toString())
+          setDestinationFee(fee ?? null)
+        } catch (error) {
+          console.error("Destination fee estimation failed:", error)
+          setDestinationFee(null)
+        }
+      }
+    } catch (error) {
+      console.error("Dry-run failed:", error)
+      setDryRunResult({
+        success: false,
+        steps: [{
+          chain: NETWORKS[ROUTES[transferDirection].source].name,
+          success: false,
+          error: error instanceof Error ? error.message : "Dry-run failed",
+        }],
+        forwardedXcms: [],
+      })
+    } finally {
+      setIsDryRunning(false)
+    }
+  }, [selectedAccount, recipient, amountPlanck, isAmountValid, sourceRestriction, transferDirection, buildTransfer, apis, dryRunChains])
+
+  // Why a deposit of `received` planck would be lost to ED rules on the destination, or null when it is safe.
+  // Blocking problems stop the transfer, the others are shown as warnings.
+  const getDestinationProblem = (
+    destinationKey: string,
+    accountExists: boolean | null,
+    received: BigNumber
+  ): { blocking: boolean; message: string } | null => {
+    const name = NETWORKS[destinationKey].name
+
+    if (received.lte(0)) {
+      return { blocking: true, message: `Nothing would be left after ${name} takes its execution fee` }
+    }
 
-// Asset Hub to Unique XCM transfer
-        // Используем обычные объекты вместо явного создания типов
-        const destination = {
-          V4: {
-            parents: 1,
-            interior: { X1: [{ Parachain: NETWORKS.unique.chainId }] },
-          },
+    if (destinationKey === "unique") {
+      const minBalance = uniqueDotAsset?.minBalance
+      if (minBalance && received.lt(minBalance)) {
+        return {
+          blocking: true,
+          message: `The amount left after destination fees is below the minimum DOT balance of ${formatUnits(minBalance, DOT_DECIMALS)} DOT on ${name} and would be lost`,
         }
+      }
 
-        const beneficiary = {
-          V4: {
-            parents: 0,
-            interior: { X1: [{ AccountId32: { id: u8aToHex(decodeAddress(selectedAccount.address)) } }] },
-          },
+      if (accountExists === false && uniqueDotAsset?.isSufficient === false) {
+        return {
+          blocking: true,
+          message: `The recipient has no account on ${name} and DOT cannot create one there, so the deposit would fail. Send it some UNQ first.`,
         }
+      }
 
-        const assets = {
-          V4: [
-            {
-              id: {
-                parents: 1,
-                interior: 'Here',
-              },
-              fun: { Fungible: amount.toString() },
-            },
-          ],
+      if (accountExists === false && uniqueDotAsset?.isSufficient === undefined) {
+        return {
+          blocking: false,
+          message: `The recipient has no account on ${name} yet. The deposit may fail if DOT alone cannot keep an account alive there.`,
         }
+      }
 
-        console.log("XCM transfer configuration (Asset Hub -> Unique):", {
-          destination,
-          beneficiary: beneficiary.V4.interior.X1[0].AccountId32.id,
-          amount: amount.toString(),
-          amountFormatted: formatBalance(amount.toString(), { decimals: DOT_DECIMALS, withSi: false })
-        })
+      return null
+    }
 
-        // Попробуем использовать более простой teleportAssets метод
-        // если reserveTransferAssets продолжает падать
-        let tx;
-        
-        try {
-          // Сначала пробуем reserveTransferAssets
-          tx = assetHubApi.tx.polkadotXcm.limitedReserveTransferAssets(
-            destination,
-            beneficiary,
-            assets,
-            0, // feeAssetItem
-            { Limited: { refTime: "15000000000", proofSize: "262144" } } // Увеличиваем weight limit
-          )
-        } catch (error) {
-          console.log("Fallback to teleportAssets due to:", error)
-          
-          // Fallback: используем teleportAssets для межпарачейных трансферов
-          tx = assetHubApi.tx.polkadotXcm.limitedTeleportAssets(
-            destination,
-            beneficiary,
-            assets,
-            0, // feeAssetItem
-            { Limited: { refTime: "15000000000", proofSize: "262144" } }
-          )
-        }
-        setTransactionStatus({ status: "pending", message: "Signing transaction..." })
-
-        console.log("Submitting Asset Hub transaction...")
-        const unsub = await tx.signAndSend(selectedAccount.address, { signer: injector.signer }, (result) => {
-          console.log("Asset Hub transaction status:", result.status.type)
-
-          if (result.status.isInBlock) {
-            console.log("Asset Hub transaction included in block:", result.status.asInBlock.toString())
-            
-            const success = result.events.some(({ event }) => 
-              assetHubApi.events.system.ExtrinsicSuccess.is(event)
-            )
-
-            const failure = result.events.some(({ event }) =>
-              assetHubApi.events.system.ExtrinsicFailed.is(event)
-            )
-            
-            if (success) {
-              setTransactionStatus({
-                status: "success",
-                message: `Successfully transferred ${transferAmount} DOT from Asset Hub to Unique Network`,
-                hash: result.txHash.toString(),
-              })
-              toast.success(`Transfer completed: ${transferAmount} DOT`)
-            } else if (failure) {
-              setTransactionStatus({
-                status: "error", 
-                message: "Transaction failed on-chain. Check explorer for details.",
-              })
-              toast.error("Transfer failed during execution.")
-            } else {
-              setTransactionStatus({
-                status: "error", 
-                message: "Transaction status uncertain. Check explorer.",
-              })
-              toast.error("Transaction status uncertain.")
-            }
-            
-            unsub()
-
-            setTimeout(() => {
-              fetchBalances()
-              setTransferAmount("")
-              setTimeout(() => setTransactionStatus({ status: "idle" }), 5000)
-            }, 5000)
-          } else if (result.isError) {
-            console.error("Asset Hub transaction error:", result)
-            setTransactionStatus({
-              status: "error",
-              message: "Transaction failed to broadcast.",
-            })
-            toast.error("Transaction failed")
-            unsub()
-          }
-        })
+    const api = getNetworkApi(apis, destinationKey)
+    if (!api || accountExists !== false) return null
+
+    const existentialDeposit = getExistentialDeposit(api)
+    if (received.lt(existentialDeposit)) {
+      return {
+        blocking: true,
+        message: `The recipient has no account on ${name} and would receive less than its existential deposit of ${formatUnits(existentialDeposit, DOT_DECIMALS)} DOT, so the transfer would be lost`,
+      }
+    }
+
+    return null
+  }
+
+  // Check every recipient can actually receive what is left of its amount before asking for a signature
+  const validateDestinations = async (
+    direction: TransferDirection,
+    transfers: TransferSummary["transfers"],
+    describe: (index: number) => string = () => ""
+  ) => {
+    const destinationKey = ROUTES[direction].destination
+    const destinationApi = getNetworkApi(apis, destinationKey)
+
+    for (const [index, { recipient, amount, destinationFee }] of transfers.entries()) {
+      const exists = destinationApi && !recipient.isEvm
+        ? await queryAccountExists(destinationApi, recipient.accountId)
+        : null
+      const received = destinationFee ? amount.minus(destinationFee) : amount
+      const problem = getDestinationProblem(destinationKey, exists, received)
+      if (problem?.blocking) throw new Error(`${describe(index)}${problem.message}`)
+    }
+  }
+
+  // Largest amount that can leave the source account, after locks, fees and (in keep-alive mode) the ED
+  const getMaxTransferable = async (): Promise<BigNumber> => {
+    if (!selectedAccount) throw new Error("Wallet not connected")
+
+    if (isUniqueSource) {
+      // Fees are paid in UNQ, so only the foreign asset's own minimum balance is held back
+      if (!uniqueDotBalance) throw new Error("DOT balance on Unique is not loaded yet")
+      const keep = keepAlive && uniqueDotAsset ? uniqueDotAsset.minBalance : new BigNumber(0)
+      return BigNumber.max(new BigNumber(uniqueDotBalance.raw).minus(keep), 0)
+    }
+
+    const api = getNetworkApi(apis, ROUTES[transferDirection].source)
+    const balance = transferDirection === "fromPolkadot" ? polkadotBalance : assetHubBalance
+    if (!api || !balance) throw new Error(`${getSourceChainName()} balance is not loaded yet`)
+
+    const transferable = getTransferableBalance(
+      {
+        free: new BigNumber(balance.raw.free),
+        reserved: new BigNumber(balance.raw.reserved),
+        frozen: new BigNumber(balance.raw.frozen),
+      },
+      getExistentialDeposit(api),
+      keepAlive
+    )
+    if (transferable.lte(0)) return transferable
+
+    // Price a transfer of everything; the fee barely depends on the amount, the margin covers the rest
+    const destination = NETWORKS[ROUTES[transferDirection].destination]
+    const feeRecipient = recipient ?? parseRecipient(selectedAccount.address, destination.ss58Format, false)
+    const { tx, xcmVersion } = await buildTransfer(transferDirection, transferable, feeRecipient)
+    const preflight = await dryRunTransfer(NETWORKS[ROUTES[transferDirection].source].chainId!, tx, selectedAccount.address, dryRunChains, xcmVersion)
+    const fees = await estimateTransferFees(api, tx, selectedAccount.address, preflight.forwardedXcms)
+    const feeWithMargin = fees.total.multipliedBy(MAX_FEE_MARGIN).dividedBy(100).integerValue(BigNumber.ROUND_UP)
+
+    return BigNumber.max(transferable.minus(feeWithMargin), 0)
+  }
+
+  // Fill the amount input with a share of the transferable balance
+  const applyAmountPreset = async (share: number) => {
+    setIsComputingPreset(true)
+    try {
+      const max = await getMaxTransferable()
+      const amount = BigNumber.min(max.multipliedBy(share).integerValue(BigNumber.ROUND_DOWN), transferLimits.max.planck)
+
+      if (amount.lt(transferLimits.min.planck)) {
+        throw new Error(`Transferable balance is below the minimum of ${transferLimits.min.value.toFixed()} DOT`)
       }
 
+      setTransferAmount(formatUnits(amount, DOT_DECIMALS))
     } catch (error) {
-      console.error("Transfer failed:", error)
-      setTransactionStatus({
-        status: "error",
-        message: error instanceof Error ? error.message : "Transfer failed",
-      })
-      toast.error(error instanceof Error ? error.message : "Transfer failed")
+      console.error("Failed to compute transferable amount:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to compute transferable amount")
+    } finally {
+      setIsComputingPreset(false)
+    }
+  }
+
+  // Ask before signing unless the user opted out for transfers this small
+  const confirmTransfer = (summary: TransferSummary): Promise<boolean> => {
+    if (confirmThreshold && summary.total.lt(toPlanck(confirmThreshold, DOT_DECIMALS))) {
+      return Promise.resolve(true)
     }
+    return new Promise((resolve) => setPendingConfirmation({ summary, resolve }))
   }
 
+  const settleConfirmation = (confirmed: boolean, skipBelow: string | null = null) => {
+    if (confirmed && skipBelow) {
+      localStorage.setItem(CONFIRM_THRESHOLD_KEY, skipBelow)
+      setConfirmThreshold(skipBelow)
+    }
+    pendingConfirmation?.resolve(confirmed)
+    setPendingConfirmation(null)
+  }
+
+  // A transfer cancelled from the queue, or by disconnecting, no longer waits for its confirmation
+  useEffect(() => {
+    if (pendingConfirmation && !transferQueue.some(({ id }) => id === pendingConfirmation.summary.id)) {
+      pendingConfirmation.resolve(false)
+      setPendingConfirmation(null)
+    }
+  }, [pendingConfirmation, transferQueue])
+
+  // Queued transfers are checked and confirmed when their turn comes, with the connections,
+  // balances and settings of that moment rather than of the render that queued them
+  const transferChecks = useRef({ validateDestinations, validateSourceBalance, confirmTransfer })
+  transferChecks.current = { validateDestinations, validateSourceBalance, confirmTransfer }
+
+  const alwaysConfirm = () => {
+    localStorage.removeItem(CONFIRM_THRESHOLD_KEY)
+    setConfirmThreshold(null)
+  }
+
+  // Queue the transfer and clear the amount, so the next one can be entered right away
+  const executeTransfer = () => {
+    if (!selectedAccount || !transferAmount) return
+
+    if (sourceRestriction) {
+      toast.error(sourceRestriction)
+      return
+    }
+    if (!amountPlanck) {
+      toast.error(amountError ?? "Enter an amount")
+      return
+    }
+    if (amountPlanck.lt(transferLimits.min.planck)) {
+      toast.error(`Minimum transfer amount is ${transferLimits.min.value.toFixed()} DOT`)
+      return
+    }
+    if (amountPlanck.gt(transferLimits.max.planck)) {
+      toast.error(`Maximum transfer amount is ${transferLimits.max.value.toFixed()} DOT`)
+      return
+    }
+    if (!recipient) {
+      toast.error(recipientError ?? "Enter a recipient address")
+      return
+    }
+
+    const account = selectedAccount
+    const direction = transferDirection
+
+    const id = enqueue({
+      direction,
+      transfers: [{ recipient, amount: amountPlanck }],
+      validate: async (total, fees, pending, transfers) => {
+        await transferChecks.current.validateDestinations(direction, transfers)
+        await transferChecks.current.validateSourceBalance(account, direction, total, fees, pending)
+      },
+      confirm: (summary) => transferChecks.current.confirmTransfer(summary),
+    })
+    if (id !== null) setTransferAmount("")
+  }
+
+  // Send every batch row in one utility.batchAll: either all transfers go out or none do
+  const executeBatch = () => {
+    if (!selectedAccount || batch.rows.length === 0 || batch.errors.length > 0) return
+    if (sourceRestriction) {
+      toast.error(sourceRestriction)
+      return
+    }
+
+    const account = selectedAccount
+    const direction = transferDirection
+    const rows = batch.rows
+
+    setBatchTransferId(enqueue({
+      direction,
+      transfers: rows.map(({ recipient, planck }) => ({ recipient, amount: planck })),
+      validate: async (total, fees, pending, transfers) => {
+        await transferChecks.current.validateDestinations(direction, transfers, (index) => `Line ${rows[index].line}: `)
+        await transferChecks.current.validateSourceBalance(account, direction, total, fees, pending)
+      },
+      confirm: (summary) => transferChecks.current.confirmTransfer(summary),
+    }))
+  }
+
+  // Re-run the preflight shortly after the amount or route stops changing
+  useEffect(() => {
+    setDryRunResult(null)
+    setFeeEstimate(null)
+    setDestinationFee(null)
+    setWeightLimit(null)
+    const timeout = setTimeout(runPreflight, DRY_RUN_DEBOUNCE)
+    return () => clearTimeout(timeout)
+  }, [runPreflight])
+
   useEffect(() => {
     if (isBrowser) {
       initializeAPIs()
     }
   }, [initializeAPIs, isBrowser])
 
+  useEffect(() => {
+    setConfirmThreshold(localStorage.getItem(CONFIRM_THRESHOLD_KEY))
+
+    const session = loadSession()
+    setLastWalletSource(session.wallet ?? null)
+    if (session.direction) setTransferDirection(session.direction)
+    if (session.amount) setTransferAmount(session.amount)
+    // Nothing is written until the user connects a wallet, also after forgetting this device
+    setRememberSession(hasStoredSession())
+
+    const watched = new URLSearchParams(window.location.search).get(WATCH_PARAM)
+    if (watched) watchAddress(watched)
+  }, [])
+
+  // Written only once the stored values were read back, so the defaults do not overwrite them
+  useEffect(() => {
+    if (rememberSession) saveSession({ direction: transferDirection, amount: transferAmount })
+  }, [rememberSession, transferDirection, transferAmount])
+
+  useEffect(() => {
+    if (rememberSession && selectedAccount && !isWatchOnlyAccount(selectedAccount)) {
+      saveSession({ account: selectedAccount.address })
+    }
+  }, [rememberSession, selectedAccount])
+
+  // Reconnect the wallet of the last session without prompting: it already authorized this site.
+  // Runs once, as soon as that wallet has injected itself
+  const restoreSession = () => {
+    if (!rememberSession || hasRestoredWallet.current) return
+
+    const { wallet: source, account } = loadSession()
+    if (!source || !account) {
+      hasRestoredWallet.current = true
+      return
+    }
+
+    const wallet = installedWallets.find((installed) => installed.source === source)
+    if (!wallet) return
+
+    hasRestoredWallet.current = true
+    console.log(`Restoring session with ${wallet.name}`)
+    connectWallet(wallet, { silent: true, account })
+  }
+
+  useEffect(() => {
+    restoreSession()
+  }, [rememberSession, installedWallets])
+
+  // Wallets inject themselves shortly after the page loads, look again once they had the chance
+  useEffect(() => {
+    if (!isBrowser) return
+
+    const detect = () => setInstalledWallets(getInstalledWallets())
+    detect()
+    const timeout = setTimeout(detect, 1000)
+    return () => clearTimeout(timeout)
+  }, [isBrowser])
+
+  useEffect(() => {
+    loadLimitsConfig()
+      .then((config) => {
+        if (config) console.log("Transfer limits overridden by deployment config:", config)
+        setLimitsConfig(config)
+      })
+      .catch((error) => console.error("Failed to load transfer limits config, using built-in limits:", error))
+  }, [])
+
+  useEffect(() => {
+    if (!uniqueApi) return
+
+    queryForeignAssetInfo(uniqueApi, "DOT")
+      .then((asset) => {
+        console.log("Unique DOT asset:", { minBalance: asset.minBalance.toString(), isSufficient: asset.isSufficient })
+        setUniqueDotAsset(asset)
+      })
+      .catch((error) => console.error("Failed to read Unique DOT asset info:", error))
+  }, [uniqueApi])
+
+  // H160 recipients have no substrate account of their own to look up
+  useEffect(() => {
+    setRecipientExists(null)
+
+    const destinationApi = getNetworkApi(apis, ROUTES[transferDirection].destination)
+    if (!recipient || recipient.isEvm || !destinationApi) return
+
+    let cancelled = false
+    queryAccountExists(destinationApi, recipient.accountId)
+      .then((exists) => {
+        if (!cancelled) setRecipientExists(exists)
+      })
+      .catch((error) => console.error("Failed to check recipient account:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [recipient, transferDirection, apis])
+
+  useEffect(() => {
+    fetchAccountTotals().catch((error) => console.error("Failed to fetch account totals:", error))
+  }, [fetchAccountTotals])
+
+  useEffect(() => () => unsubscribeAccounts.current?.(), [])
+
+  // Balances of the previous account must not be shown for the new one while it loads
+  useEffect(() => {
+    setPolkadotBalance(null)
+    setAssetHubBalance(null)
+    setUniqueBalance(null)
+    setUniqueDotBalance(null)
+  }, [selectedAccount?.address])
+
   useEffect(() => {
     if (selectedAccount) {
       fetchBalances()
@@ -687,36 +1157,98 @@ if (assetHubBalance) {
     }
   }, [selectedAccount, fetchBalances])
 
-  const transferAmountNum = transferAmount ? parseFloat(transferAmount) : 0
-  const isAmountValid = transferAmountNum >= MIN_DOT_TRANSFER && transferAmountNum <= MAX_DOT_TRANSFER
+
+  // Routes through the relay reserve are only offered once both runtimes expose the call
+  const isAssetHubRouteAvailable = supportsRelayReserveTransfer(assetHubApi)
+  const isUniqueToAssetHubRouteAvailable = supportsRelayReserveTransfer(uniqueApi)
+
+  const isUniqueSource = transferDirection === "fromUnique" || transferDirection === "fromUniqueToAssetHub"
+
+  const sourceNetwork = NETWORKS[ROUTES[transferDirection].source]
+
+  // Amount and fees in planck; unknown fees count as zero until the preflight prices them
+  const transferAmountRaw = amountPlanck ?? new BigNumber(0)
+  const requiredFees = feeEstimate?.total ?? new BigNumber(0)
+
+  // What can leave an account with this balance, as validated before signing; keep-alive is checked apart
+  const getSpendableBalance = ({ raw }: Balance) => getTransferableBalance(
+    { free: new BigNumber(raw.free), reserved: new BigNumber(raw.reserved), frozen: new BigNumber(raw.frozen) },
+    new BigNumber(0),
+    false
+  )
 
   const isBalanceSufficient = () => {
     if (!transferAmount) return true
-    
-    if (transferDirection === 'fromPolkadot') {
-      if (!polkadotBalance) return true
-      const available = parseFloat(polkadotBalance.free.replace(/[,\s]/g, ''))
-      const required = transferAmountNum + 0.01 // Add fee estimate
-      return available >= required
-    } else {
-      if (!assetHubBalance) return true
-      const available = parseFloat(assetHubBalance.free.replace(/[,\s]/g, ''))
-      const required = transferAmountNum + 0.01 // Add fee estimate
-      return available >= required
+
+    if (isUniqueSource) {
+      // XCM fees are paid in UNQ on Unique, so only the DOT amount itself is checked here
+      if (!uniqueDotBalance) return true
+      return new BigNumber(uniqueDotBalance.raw).gte(transferAmountRaw) && hasUniqueFeeBalance()
     }
+
+    const balance = transferDirection === 'fromPolkadot' ? polkadotBalance : assetHubBalance
+    if (!balance) return true
+    return getSpendableBalance(balance).gte(transferAmountRaw.plus(requiredFees))
   }
 
+  const hasUniqueFeeBalance = () => {
+    if (!uniqueBalance) return true
+    return getSpendableBalance(uniqueBalance).gte(requiredFees)
+  }
+
+  const destinationNetwork = NETWORKS[ROUTES[transferDirection].destination]
+
+  // Fees are checked precisely once the batch is built, this only catches totals that can never fit
+  const batchTotal = batch.rows.reduce((sum, { planck }) => sum.plus(planck), new BigNumber(0))
+  const batchSourceBalance = transferDirection === "fromPolkadot" ? polkadotBalance : assetHubBalance
+  const isBatchBalanceSufficient = !batchSourceBalance ||
+    getSpendableBalance(batchSourceBalance).gte(batchTotal)
+
+  // What lands on the destination once it has taken its execution fee out of the transfer
+  const estimatedReceived = destinationFee ? transferAmountRaw.minus(destinationFee) : null
+  const destinationProblem = transferAmount && isAmountValid
+    ? getDestinationProblem(ROUTES[transferDirection].destination, recipientExists, estimatedReceived ?? transferAmountRaw)
+    : null
+
+  // Native balance left on the source once the transfer (DOT routes) and its fees are paid
+  const sourceApi = getNetworkApi(apis, ROUTES[transferDirection].source)
+  const sourceNativeBalance = isUniqueSource
+    ? uniqueBalance
+    : transferDirection === "fromPolkadot" ? polkadotBalance : assetHubBalance
+  const sourceExistentialDeposit = sourceApi ? getExistentialDeposit(sourceApi) : null
+  const remainingSourceBalance = sourceNativeBalance
+    ? new BigNumber(sourceNativeBalance.raw.free).minus(isUniqueSource ? 0 : transferAmountRaw).minus(requiredFees)
+    : null
+  const wouldReapSource = !!transferAmount && remainingSourceBalance !== null && sourceExistentialDeposit !== null &&
+    remainingSourceBalance.gte(0) && remainingSourceBalance.lt(sourceExistentialDeposit)
+
   const getCurrentSourceBalance = () => {
+    if (isUniqueSource) {
+      return uniqueDotBalance ? { free: uniqueDotBalance.balance } : null
+    }
     return transferDirection === 'fromPolkadot' ? polkadotBalance : assetHubBalance
   }
 
+  const getSourceChainName = () => NETWORKS[ROUTES[transferDirection].source].name
+
+  // New transfers wait for the ones ahead of them to be signed and submitted
+  const isQueueBusy = transferQueue.some(({ phase }) => !isTransferSettled(phase))
+
+  // Batch rows follow the recipients of the batch sent from them, in the same order
+  const batchStatuses = (isBatch && transferQueue.find(({ id }) => id === batchTransferId)?.recipients) || []
+
   return (
     <div className="max-w-2xl mx-auto p-6 bg-white rounded-lg shadow-lg">
       <Toaster position="top-right" />
+      <TransferConfirmation
+        summary={pendingConfirmation?.summary ?? null}
+        onConfirm={(skipBelow) => settleConfirmation(true, skipBelow)}
+        onCancel={() => settleConfirmation(false)}
+      />
 
       <div className="text-center mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-2">DOT Crosschain Transfer</h1>
-        <p className="text-gray-600">Transfer DOT tokens from Polkadot/Asset Hub to Unique Network</p>
+        <p className="text-gray-600">Transfer DOT tokens between Polkadot/Asset Hub and Unique Network</p>
         <div className="mt-2 text-xs text-gray-500">
           <span>Unique DOT collection ID: {DOT_FOREIGN_ASSET_COLLECTION_ID}</span>
         </div>
@@ -738,31 +1270,106 @@ if (assetHubBalance) {
 
       {!selectedAccount ? (
         <div className="text-center mb-8">
-          <button
-            onClick={connectWallet}
-            disabled={isConnecting}
-            className="inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          {installedWallets.length > 0 ? (
+            <>
+              <p className="text-sm text-gray-600 mb-3">Choose a wallet to connect:</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {[...installedWallets]
+                  .sort((a, b) => Number(b.source === lastWalletSource) - Number(a.source === lastWalletSource))
+                  .map((wallet) => (
+                    <button
+                      key={wallet.source}
+                      onClick={() => connectWallet(wallet)}
+                      disabled={isConnecting}
+                      className="inline-flex items-center px-5 py-3 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isConnecting ? (
+                        <Loader2 className="animate-spin -ml-1 mr-3 h-5 w-5" />
+                      ) : (
+                        <Wallet className="-ml-1 mr-3 h-5 w-5" />
+                      )}
+                      {wallet.name}
+                      {wallet.source === lastWalletSource && (
+                        <span className="ml-2 text-xs font-normal text-blue-100">(last used)</span>
+                      )}
+                    </button>
+                  ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 mt-2">
+              No Polkadot wallet found. Install Polkadot{"{.js}"}, Talisman or SubWallet, or open this page in Nova Wallet.
+            </p>
+          )}
+          {lastWalletSource && (
+            <button onClick={forgetDevice} className="mt-3 text-xs text-gray-500 hover:text-red-600">
+              Forget this device
+            </button>
+          )}
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              watchAddress(watchInput)
+            }}
+            className="mt-6 pt-6 border-t border-gray-200 max-w-xl mx-auto text-left"
           >
-            {isConnecting ? (
-              <>
-                <Loader2 className="animate-spin -ml-1 mr-3 h-5 w-5" />
-                Connecting...
-              </>
-            ) : (
-              <>
-                <Wallet className="-ml-1 mr-3 h-5 w-5" />
-                Connect Wallet
-              </>
-            )}
-          </button>
-          <p className="text-sm text-gray-500 mt-2">Make sure you have Polkadot.js extension installed</p>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Or watch an address without a wallet
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={watchInput}
+                onChange={(e) => setWatchInput(e.target.value)}
+                placeholder="SS58 or 0x EVM address"
+                spellCheck={false}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={!watchInput.trim()}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Watch
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Shows balances and transfer history read-only; nothing can be signed.</p>
+          </form>
         </div>
       ) : (
         <>
-          <div className="mb-6 p-4 bg-gray-50 rounded-lg">
-            <p className="text-sm text-gray-600">Connected Account:</p>
-            <p className="font-mono text-sm break-all">{selectedAccount.address}</p>
-            <p className="text-sm text-gray-600 mt-1">{selectedAccount.meta.name}</p>
+          <div className="mb-6">
+            <div className="flex justify-between items-center mb-1">
+              <p className="text-sm text-gray-600">
+                {isWatchOnly ? "Watching (read-only):" : <>Connected Account{connectedWallet && ` (${connectedWallet.name})`}:</>}
+              </p>
+              {isWatchOnly ? (
+                <div className="flex gap-3">
+                  <button onClick={copyWatchLink} className="text-sm text-gray-600 hover:text-blue-600">
+                    Copy link
+                  </button>
+                  <button onClick={stopWatching} className="text-sm text-gray-600 hover:text-red-600">
+                    Stop watching
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-3">
+                  <button onClick={forgetDevice} className="text-sm text-gray-600 hover:text-red-600">
+                    Forget this device
+                  </button>
+                  <button onClick={() => disconnect()} className="text-sm text-gray-600 hover:text-red-600">
+                    Disconnect
+                  </button>
+                </div>
+              )}
+            </div>
+            <AccountSelector
+              accounts={accounts}
+              selectedAccount={selectedAccount}
+              totals={accountTotals}
+              onSelect={selectAccount}
+            />
           </div>
 
           <div className="mb-6">
@@ -781,7 +1388,9 @@ if (assetHubBalance) {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className={`p-4 border rounded-lg ${transferDirection === 'fromPolkadot' ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}>
                 <h3 className="font-semibold text-gray-900 mb-2">Polkadot Relay Chain</h3>
-                {polkadotBalance ? (
+                {isEthereumSelected ? (
+                  <p className="text-sm text-gray-500">Not available for Ethereum (H160) accounts</p>
+                ) : polkadotBalance ? (
                   <div className="space-y-1">
                     <p className="text-2xl font-bold text-pink-600">{polkadotBalance.free} DOT</p>
                     <p className="text-sm text-gray-500">Available</p>
@@ -799,7 +1408,9 @@ if (assetHubBalance) {
 
               <div className={`p-4 border rounded-lg ${transferDirection === 'fromAssetHub' ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}>
                 <h3 className="font-semibold text-gray-900 mb-2">Asset Hub</h3>
-                {assetHubBalance ? (
+                {isEthereumSelected ? (
+                  <p className="text-sm text-gray-500">Not available for Ethereum (H160) accounts</p>
+                ) : assetHubBalance ? (
                   <div className="space-y-1">
                     <p className="text-2xl font-bold text-green-600">{assetHubBalance.free} DOT</p>
                     <p className="text-sm text-gray-500">Available</p>
@@ -815,13 +1426,15 @@ if (assetHubBalance) {
                 )}
               </div>
 
-              <div className="p-4 border rounded-lg">
+              <div className={`p-4 border rounded-lg ${isUniqueSource ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}>
                 <h3 className="font-semibold text-gray-900 mb-2">Unique Network</h3>
                 {uniqueBalance ? (
                   <div className="space-y-3">
                     <div>
                       <p className="text-2xl font-bold text-purple-600">{uniqueBalance.free} UNQ</p>
-                      <p className="text-sm text-gray-500">Native Balance</p>
+                      <p className="text-sm text-gray-500">
+                        {isEthereumSelected ? "Native Balance (EVM mirror account)" : "Native Balance"}
+                      </p>
                       {uniqueBalance.reserved !== "0" && (
                         <p className="text-xs text-gray-400">Reserved: {uniqueBalance.reserved} UNQ</p>
                       )}
@@ -847,10 +1460,10 @@ if (assetHubBalance) {
           <div className="space-y-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Transfer Direction</label>
-              <div className="flex items-center space-x-4">
+              <div className="flex flex-wrap items-center gap-4">
                 <button
                   onClick={() => setTransferDirection("fromPolkadot")}
-                  className={`flex items-center px-4 py-2 rounded-md border ${
+                  className={`flex items-center px-4 py-2 rounded-md border disabled:opacity-50 disabled:cursor-not-allowed ${
                     transferDirection === "fromPolkadot"
                       ? "border-blue-500 bg-blue-50 text-blue-700"
                       : "border-gray-300 text-gray-700 hover:bg-gray-50"
@@ -860,10 +1473,10 @@ if (assetHubBalance) {
                 </button>
                 {/* <ArrowUpDown className="h-5 w-5 text-gray-400" /> */}
                 <button
-                  disabled={true} // Disable Asset Hub to Unique for now
-                  title="Asset Hub to Unique transfer is currently disabled"
+                  disabled={!isAssetHubRouteAvailable}
+                  title={isAssetHubRouteAvailable ? undefined : "Asset Hub runtime does not support remote reserve transfers"}
                   onClick={() => setTransferDirection("fromAssetHub")}
-                  className={`flex items-center px-4 py-2 rounded-md border ${
+                  className={`flex items-center px-4 py-2 rounded-md border disabled:opacity-50 disabled:cursor-not-allowed ${
                     transferDirection === "fromAssetHub"
                       ? "border-blue-500 bg-blue-50 text-blue-700"
                       : "border-gray-300 text-gray-700 hover:bg-gray-50"
@@ -871,124 +1484,386 @@ if (assetHubBalance) {
                 >
                   Asset Hub → Unique
                 </button>
+                <button
+                  onClick={() => setTransferDirection("fromUnique")}
+                  className={`flex items-center px-4 py-2 rounded-md border disabled:opacity-50 disabled:cursor-not-allowed ${
+                    transferDirection === "fromUnique"
+                      ? "border-blue-500 bg-blue-50 text-blue-700"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  Unique → Polkadot
+                </button>
+                <button
+                  disabled={!isUniqueToAssetHubRouteAvailable}
+                  title={isUniqueToAssetHubRouteAvailable ? undefined : "Unique runtime does not support remote reserve transfers"}
+                  onClick={() => setTransferDirection("fromUniqueToAssetHub")}
+                  className={`flex items-center px-4 py-2 rounded-md border disabled:opacity-50 disabled:cursor-not-allowed ${
+                    transferDirection === "fromUniqueToAssetHub"
+                      ? "border-blue-500 bg-blue-50 text-blue-700"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  Unique → Asset Hub
+                </button>
               </div>
               <p className="text-sm text-gray-500 mt-2">
-                {transferDirection === "fromPolkadot" 
-                  ? "Transfer DOT from Polkadot Relay Chain to Unique Network"
-                  : "Transfer DOT from Asset Hub to Unique Network"
-                }
+                {ROUTES[transferDirection].description}
               </p>
+              {sourceRestriction && (
+                <div className="mt-2 p-3 rounded-md bg-yellow-50 border border-yellow-200 flex items-start">
+                  <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-yellow-600" />
+                  <p className="text-sm text-yellow-800">{sourceRestriction}</p>
+                </div>
+              )}
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Amount (DOT) - From: {transferDirection === "fromPolkadot" ? "Polkadot Relay" : "Asset Hub"}
+            {isBatchAvailable && (
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={batchMode}
+                  onChange={(e) => setBatchMode(e.target.checked)}
+                  className="mr-2 rounded border-gray-300"
+                />
+                Batch payout to several {destinationNetwork.name} recipients
               </label>
-              <input
-                type="number"
-                inputMode="decimal"
-                value={transferAmount}
-                onChange={(e) => setTransferAmount(e.target.value)}
-                placeholder="0.000"
-                min={MIN_DOT_TRANSFER}
-                max={MAX_DOT_TRANSFER}
-                step="0.001"
-                className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
-                  transferAmount && !isAmountValid
-                    ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
-                    : 'border-gray-300'
-                }`}
-              />
-              <div className="mt-1 flex justify-between text-xs text-gray-500">
-                <span>Min: {MIN_DOT_TRANSFER} DOT</span>
-                <span>Max: {MAX_DOT_TRANSFER} DOT</span>
+            )}
+
+            {isBatch ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Recipients and amounts (DOT) - From: {getSourceChainName()}
+                </label>
+                <textarea
+                  value={batchInput}
+                  onChange={(e) => {
+                    setBatchInput(e.target.value)
+                    setBatchTransferId(null)
+                  }}
+                  rows={6}
+                  spellCheck={false}
+                  placeholder={"address, amount\n5Grw...utQY, 1.5\n0x8eaf...7a48, 0.25"}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  One recipient per line, or paste CSV with an address and an amount column.
+                </p>
+
+                {batch.errors.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {batch.errors.map((error) => (
+                      <li key={error} className="text-xs text-red-600">{error}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {batch.rows.length > 0 && (
+                  <div className="mt-3 border border-gray-200 rounded-md divide-y divide-gray-100">
+                    {batch.rows.map((row, index) => {
+                      const rowStatus = batchStatuses[index]
+
+                      return (
+                        <div key={`${row.line}-${row.recipient.address}`} className="flex items-center justify-between px-3 py-2 text-xs">
+                          <span className="font-mono truncate mr-3" title={row.recipient.address}>
+                            {row.recipient.address}
+                          </span>
+                          <span className="flex items-center flex-shrink-0">
+                            <span className="mr-3">{formatUnits(row.planck, DOT_DECIMALS)} DOT</span>
+                            {rowStatus?.status === "credited" && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+                            {rowStatus?.status === "failed" && (
+                              <span title={rowStatus.error}>
+                                <XCircle className="h-4 w-4 text-red-600" />
+                              </span>
+                            )}
+                            {(rowStatus?.status === "pending" || rowStatus?.status === "sent" || rowStatus?.status === "processed") && (
+                              <Loader2 className="animate-spin h-4 w-4 text-yellow-600" />
+                            )}
+                          </span>
+                        </div>
+                      )
+                    })}
+                    <div className="flex justify-between px-3 py-2 text-xs font-medium text-gray-800">
+                      <span>Total ({batch.rows.length} recipients)</span>
+                      <span>{formatUnits(batchTotal, DOT_DECIMALS)} DOT</span>
+                    </div>
+                  </div>
+                )}
+
+                {getCurrentSourceBalance() && (
+                  <p className="text-xs text-gray-600 mt-1">
+                    Available: {getCurrentSourceBalance()?.free} DOT
+                  </p>
+                )}
+
+                {!isBatchBalanceSufficient && (
+                  <p className="text-xs text-red-600 mt-1">
+                    Insufficient balance for the batch total
+                  </p>
+                )}
               </div>
+            ) : (
+              <>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Recipient on {destinationNetwork.name}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setRecipientInput(selectedAccount.address)}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    Send to myself
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  value={recipientInput}
+                  onChange={(e) => setRecipientInput(e.target.value)}
+                  list="wallet-accounts"
+                  placeholder={destinationNetwork.supportsEvm ? "SS58 or 0x EVM address" : "SS58 address"}
+                  spellCheck={false}
+                  className={`w-full px-3 py-2 border rounded-md shadow-sm font-mono text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                    recipientError
+                      ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                      : 'border-gray-300'
+                  }`}
+                />
+                {/* Wallet accounts as suggestions; H160 ones only where they can receive DOT */}
+                <datalist id="wallet-accounts">
+                  {accounts
+                    .filter((account) => destinationNetwork.supportsEvm || !isEthereumAccount(account))
+                    .map((account) => (
+                      <option key={account.address} value={account.address}>{account.meta.name}</option>
+                    ))}
+                </datalist>
+                {recipientError && (
+                  <p className="text-xs text-red-600 mt-1">{recipientError}</p>
+                )}
+                {recipient && (
+                  <p className="text-xs text-gray-600 mt-1 flex items-start">
+                    <CheckCircle2 className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0 text-green-600" />
+                    <span className="break-all">
+                      {recipient.isEvm ? "EVM account (checksum valid)" : `Checksum valid, ${destinationNetwork.name} format`}:{" "}
+                      <span className="font-mono">{recipient.address}</span>
+                      {recipient.accountId === u8aToHex(decodeAddress(selectedAccount.address)) && " (your account)"}
+                    {recipientExists === false && `, no account on ${destinationNetwork.name} yet`}
+                    </span>
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Amount (DOT) - From: {getSourceChainName()}
+                </label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  autoComplete="off"
+                  value={transferAmount}
+                  onChange={(e) => setTransferAmount(e.target.value)}
+                  placeholder="0.000"
+                  className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                    transferAmount && !isAmountValid
+                      ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                      : 'border-gray-300'
+                  }`}
+                />
+                <div className="mt-1 flex justify-between text-xs text-gray-500">
+                  <span>Min: {transferLimits.min.value.toFixed()} DOT ({transferLimits.min.source})</span>
+                  <span>Max: {transferLimits.max.value.toFixed()} DOT ({transferLimits.max.source})</span>
+                </div>
+
+                <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex gap-1">
+                    {AMOUNT_PRESETS.map(({ label, share }) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => applyAmountPreset(share)}
+                        disabled={isComputingPreset}
+                        className="px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    {isComputingPreset && <Loader2 className="animate-spin h-4 w-4 ml-1 self-center text-gray-500" />}
+                  </div>
+                  <label className="flex items-center text-xs text-gray-700" title="Keep the source account above its existential deposit">
+                    <input
+                      type="checkbox"
+                      checked={keepAlive}
+                      onChange={(e) => setKeepAlive(e.target.checked)}
+                      className="mr-1 rounded border-gray-300"
+                    />
+                    Keep source account alive
+                  </label>
+                </div>
               
-              {getCurrentSourceBalance() && (
-                <p className="text-xs text-gray-600 mt-1">
-                  Available: {getCurrentSourceBalance()?.free} DOT
-                </p>
-              )}
+                {getCurrentSourceBalance() && (
+                  <p className="text-xs text-gray-600 mt-1">
+                    Available: {getCurrentSourceBalance()?.free} DOT
+                  </p>
+                )}
+
+                {transferAmount && estimatedReceived && (
+                  <p className="text-xs text-gray-600 mt-1">
+                    You will receive ≈ {formatUnits(BigNumber.max(estimatedReceived, 0), DOT_DECIMALS)} DOT on {destinationNetwork.name}
+                    {" "}(destination fee ≈ {formatUnits(destinationFee!, DOT_DECIMALS)} DOT)
+                  </p>
+                )}
+
+                {wouldReapSource && (
+                  <p className={`mt-1 text-xs ${keepAlive ? "text-red-600" : "text-yellow-700"}`}>
+                    {getSourceChainName()} would keep only {formatUnits(BigNumber.max(remainingSourceBalance!, 0), sourceNetwork.decimals)} {sourceNetwork.symbol},
+                    below the existential deposit of {formatUnits(sourceExistentialDeposit!, sourceNetwork.decimals)} {sourceNetwork.symbol}.{" "}
+                    {keepAlive
+                      ? "Lower the amount or allow the account to be reaped."
+                      : "The account will be reaped and the remainder lost."}
+                  </p>
+                )}
+
+                {destinationProblem && (
+                  <p className={`mt-1 text-xs ${destinationProblem.blocking ? "text-red-600" : "text-yellow-700"}`}>
+                    {destinationProblem.message}
+                  </p>
+                )}
               
-              {transferAmount && transferAmountNum < MIN_DOT_TRANSFER && (
-                <p className="mt-1 text-xs text-red-600">
-                  Minimum transfer amount is {MIN_DOT_TRANSFER} DOT (existential deposit + fees)
-                </p>
-              )}
+                {amountError && (
+                  <p className="mt-1 text-xs text-red-600">{amountError}</p>
+                )}
+
+                {amountPlanck && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Sending exactly {formatUnits(amountPlanck, DOT_DECIMALS)} DOT ={" "}
+                    <span className="font-mono">{amountPlanck.toFixed()}</span> planck
+                  </p>
+                )}
+
+                {amountPlanck?.lt(transferLimits.min.planck) && (
+                  <p className="mt-1 text-xs text-red-600">
+                    Minimum transfer amount is {transferLimits.min.value.toFixed()} DOT ({transferLimits.min.source})
+                  </p>
+                )}
               
-              {transferAmount && transferAmountNum > MAX_DOT_TRANSFER && (
-                <p className="mt-1 text-xs text-red-600">
-                  Maximum transfer amount is {MAX_DOT_TRANSFER} DOT for security
-                </p>
-              )}
+                {amountPlanck?.gt(transferLimits.max.planck) && (
+                  <p className="mt-1 text-xs text-red-600">
+                    Maximum transfer amount is {transferLimits.max.value.toFixed()} DOT ({transferLimits.max.source})
+                  </p>
+                )}
               
-              {transferAmount && !isBalanceSufficient() && (
-                <p className="mt-1 text-xs text-red-600">
-                  Insufficient balance. Available: {getCurrentSourceBalance()?.free || '0'} DOT, Required: ~{(transferAmountNum + 0.01).toFixed(3)} DOT (including fees)
-                </p>
-              )}
-            </div>
+                {transferAmount && feeEstimate && (
+                  <div className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-600 space-y-0.5">
+                    <div className="flex justify-between">
+                      <span>{sourceNetwork.name} network fee</span>
+                      <span>{formatUnits(feeEstimate.sourceFee, sourceNetwork.decimals)} {sourceNetwork.symbol}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>XCM delivery fee</span>
+                      <span>
+                        {feeEstimate.deliveryFeeAvailable
+                          ? `${formatUnits(feeEstimate.deliveryFee, sourceNetwork.decimals)} ${sourceNetwork.symbol}`
+                          : "not available"}
+                      </span>
+                    </div>
+                    <div className="flex justify-between font-medium text-gray-800 pt-0.5 border-t border-gray-200">
+                      <span>Total fees</span>
+                      <span>{formatUnits(feeEstimate.total, sourceNetwork.decimals)} {sourceNetwork.symbol}</span>
+                    </div>
+                    {weightLimit && (
+                      <div className="flex justify-between text-gray-500">
+                        <span>Destination weight limit</span>
+                        <span className="font-mono">{describeWeightLimit(weightLimit)}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
 
-            {transactionStatus.status !== "idle" && (
-              <div
-                className={`p-4 rounded-md ${
-                  transactionStatus.status === "success"
-                    ? "bg-green-50 border border-green-200"
-                    : transactionStatus.status === "error"
-                      ? "bg-red-50 border border-red-200"
-                      : "bg-yellow-50 border border-yellow-200"
-                }`}
-              >
-                <div className="flex items-center">
-                  {transactionStatus.status === "pending" && (
-                    <Loader2 className="animate-spin h-4 w-4 mr-2 text-yellow-600" />
-                  )}
-                  {transactionStatus.status === "error" && <AlertCircle className="h-4 w-4 mr-2 text-red-600" />}
-                  <p
-                    className={`text-sm ${
-                      transactionStatus.status === "success"
-                        ? "text-green-800"
-                        : transactionStatus.status === "error"
-                          ? "text-red-800"
-                          : "text-yellow-800"
-                    }`}
-                  >
-                    {transactionStatus.message}
+                {transferAmount && isUniqueSource && !hasUniqueFeeBalance() && (
+                  <p className="mt-1 text-xs text-red-600">
+                    Insufficient UNQ for fees. Available: {uniqueBalance?.free || '0'} UNQ, Required: ~{formatUnits(requiredFees, UNQ_DECIMALS)} UNQ
+                  </p>
+                )}
+
+                {transferAmount && isUniqueSource && hasUniqueFeeBalance() && !isBalanceSufficient() && (
+                  <p className="mt-1 text-xs text-red-600">
+                    Insufficient DOT on Unique. Available: {uniqueDotBalance?.balance || '0'} DOT, Required: {formatUnits(transferAmountRaw, DOT_DECIMALS)} DOT
+                  </p>
+                )}
+
+                {transferAmount && !isUniqueSource && !isBalanceSufficient() && (
+                  <p className="mt-1 text-xs text-red-600">
+                    Insufficient balance. Available: {getCurrentSourceBalance()?.free || '0'} DOT, Required: ~{formatUnits(transferAmountRaw.plus(requiredFees), DOT_DECIMALS)} DOT (including fees)
                   </p>
-                </div>
-                {transactionStatus.hash && (
-                  <>
-                    <p className="text-xs text-gray-500 mt-1 font-mono">Hash: {transactionStatus.hash}</p>
-                    <a 
-                      href={transferDirection === "fromPolkadot" 
-                        ? `https://polkadot.subscan.io/extrinsic/${transactionStatus.hash}`
-                        : `https://assethub-polkadot.subscan.io/extrinsic/${transactionStatus.hash}`
-                      }
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-xs text-blue-600 hover:text-blue-800 mt-1 inline-flex items-center"
-                    >
-                      View on Subscan Explorer →
-                    </a>
-                  </>
                 )}
               </div>
+
+              {(isDryRunning || dryRunResult) && (
+                <div
+                  className={`p-4 rounded-md border ${
+                    isDryRunning
+                      ? "bg-gray-50 border-gray-200"
+                      : dryRunResult?.success
+                        ? "bg-green-50 border-green-200"
+                        : "bg-red-50 border-red-200"
+                  }`}
+                >
+                  <div className="flex items-center mb-2">
+                    {isDryRunning ? (
+                      <Loader2 className="animate-spin h-4 w-4 mr-2 text-gray-500" />
+                    ) : dryRunResult?.success ? (
+                      <CheckCircle2 className="h-4 w-4 mr-2 text-green-600" />
+                    ) : (
+                      <XCircle className="h-4 w-4 mr-2 text-red-600" />
+                    )}
+                    <p className="text-sm font-medium text-gray-800">
+                      {isDryRunning
+                        ? "Simulating transfer..."
+                        : dryRunResult?.success
+                          ? "Dry-run passed"
+                          : "Dry-run failed - this transfer would not succeed"}
+                    </p>
+                  </div>
+                  {!isDryRunning && dryRunResult && (
+                    <ul className="space-y-1 text-xs">
+                      {dryRunResult.steps.map((step, index) => (
+                        <li key={index} className={step.success ? "text-gray-600" : "text-red-700"}>
+                          <span className="font-medium">{step.chain}:</span>{" "}
+                          {step.skipped ? "dry-run not available" : step.success ? "ok" : step.error}
+                          {!step.success && step.hint && <p className="text-gray-700 mt-0.5">{step.hint}</p>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              </>
             )}
 
+            <TransferQueue items={transferQueue} onCancel={cancelTransfer} onDismiss={dismissTransfer} />
+
             <button
-              onClick={executeTransfer}
-              disabled={!transferAmount || !isAmountValid || !isBalanceSufficient() || transactionStatus.status === "pending"}
+              onClick={isBatch ? executeBatch : executeTransfer}
+              disabled={!!sourceRestriction || (isBatch
+                ? batch.rows.length === 0 || batch.errors.length > 0 || !isBatchBalanceSufficient
+                : !transferAmount || !isAmountValid || !recipient || !isBalanceSufficient() || (keepAlive && wouldReapSource) || !!destinationProblem?.blocking || isDryRunning || !dryRunResult?.success)}
               className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {transactionStatus.status === "pending" ? (
-                <>
-                  <Loader2 className="animate-spin -ml-1 mr-3 h-5 w-5" />
-                  Processing...
-                </>
-              ) : (
-                "Execute Transfer"
-              )}
+              {isBatch
+                ? `${isQueueBusy ? "Queue" : "Send"} Batch (${batch.rows.length})`
+                : isQueueBusy ? "Add to Queue" : "Execute Transfer"}
             </button>
+
+            {confirmThreshold && (
+              <p className="text-xs text-gray-500 text-center">
+                Transfers under {confirmThreshold} DOT are signed without confirmation.{" "}
+                <button type="button" onClick={alwaysConfirm} className="text-blue-600 hover:text-blue-800">
+                  Always confirm
+                </button>
+              </p>
+            )}
           </div>
         </>
       )}
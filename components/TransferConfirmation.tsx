@@ -0,0 +1,148 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import BigNumber from "bignumber.js"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import type { TransferSummary } from "@/hooks/use-xcm-transfer"
+import { parseAmount } from "@/lib/amount"
+import { DOT_DECIMALS, NETWORKS, ROUTES, formatUnits } from "@/lib/networks"
+
+interface TransferConfirmationProps {
+  // The transfer waiting for confirmation, the dialog is closed while null
+  summary: TransferSummary | null
+  // skipBelow: DOT amount under which the user no longer wants to be asked, if they chose one
+  onConfirm: (skipBelow: string | null) => void
+  onCancel: () => void
+}
+
+// Suggest a whole DOT amount just above this transfer, so the same transfer would not ask again
+const suggestThreshold = (total: BigNumber) =>
+  BigNumber.max(total.shiftedBy(-DOT_DECIMALS).plus(1).integerValue(BigNumber.ROUND_FLOOR), 1).toFixed()
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="flex justify-between gap-4 py-1">
+    <dt className="text-gray-500 flex-shrink-0">{label}</dt>
+    <dd className="text-gray-900 text-right break-all">{children}</dd>
+  </div>
+)
+
+export const TransferConfirmation: React.FC<TransferConfirmationProps> = ({ summary, onConfirm, onCancel }) => {
+  const [skipEnabled, setSkipEnabled] = useState(false)
+  const [skipBelow, setSkipBelow] = useState("")
+
+  useEffect(() => {
+    if (!summary) return
+    setSkipEnabled(false)
+    setSkipBelow(suggestThreshold(summary.total))
+  }, [summary])
+
+  if (!summary) return null
+
+  const route = ROUTES[summary.direction]
+  const source = NETWORKS[route.source]
+  const destination = NETWORKS[route.destination]
+  const { fees, transfers } = summary
+
+  // Unknown as soon as one destination fee could not be estimated
+  const received = transfers.every(({ destinationFee }) => destinationFee)
+    ? transfers.reduce((sum, { amount, destinationFee }) => sum.plus(BigNumber.max(amount.minus(destinationFee!), 0)), new BigNumber(0))
+    : null
+
+  let skipThreshold: string | null = null
+  if (skipEnabled) {
+    try {
+      skipThreshold = formatUnits(parseAmount(skipBelow, DOT_DECIMALS), DOT_DECIMALS)
+    } catch {
+      skipThreshold = null
+    }
+  }
+
+  return (
+    <AlertDialog open onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="bg-white">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Confirm transfer</AlertDialogTitle>
+          <AlertDialogDescription>
+            Check the details below. Your wallet will ask you to sign the transaction next.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <dl className="text-sm divide-y divide-gray-100">
+          <Row label="From">{source.name}</Row>
+          <Row label="To">{destination.name}</Row>
+          {transfers.length === 1 ? (
+            <>
+              <Row label="Beneficiary">
+                <span className="font-mono text-xs">{transfers[0].recipient.address}</span>
+              </Row>
+              <Row label="Amount">{formatUnits(transfers[0].amount, DOT_DECIMALS)} DOT</Row>
+            </>
+          ) : (
+            <div className="py-1">
+              <dt className="text-gray-500">Beneficiaries ({transfers.length})</dt>
+              <dd className="mt-1 max-h-32 overflow-y-auto space-y-1">
+                {transfers.map(({ recipient, amount }, index) => (
+                  <div key={`${index}-${recipient.address}`} className="flex justify-between gap-2 text-xs">
+                    <span className="font-mono truncate" title={recipient.address}>{recipient.address}</span>
+                    <span className="flex-shrink-0">{formatUnits(amount, DOT_DECIMALS)} DOT</span>
+                  </div>
+                ))}
+              </dd>
+            </div>
+          )}
+          {transfers.length > 1 && <Row label="Total">{formatUnits(summary.total, DOT_DECIMALS)} DOT</Row>}
+          <Row label="Estimated fees">
+            {formatUnits(fees.total, source.decimals)} {source.symbol}
+            {!fees.deliveryFeeAvailable && <span className="block text-xs text-gray-500">delivery fee not included</span>}
+          </Row>
+          <Row label={transfers.length > 1 ? "Estimated received in total" : "Estimated received"}>
+            {received ? `≈ ${formatUnits(received, DOT_DECIMALS)} DOT` : "Unknown"}
+          </Row>
+          <Row label="XCM version">V{summary.xcmVersion}</Row>
+        </dl>
+
+        <div className="text-xs text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={skipEnabled}
+              onChange={(e) => setSkipEnabled(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Don&apos;t ask again for transfers under
+            <input
+              type="text"
+              inputMode="decimal"
+              value={skipBelow}
+              onChange={(e) => setSkipBelow(e.target.value)}
+              disabled={!skipEnabled}
+              className="w-20 px-1 py-0.5 border border-gray-300 rounded disabled:opacity-50"
+            />
+            DOT
+          </label>
+          {skipEnabled && !skipThreshold && <p className="mt-1 text-red-600">Enter a valid DOT amount</p>}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => onConfirm(skipThreshold)}
+            disabled={skipEnabled && !skipThreshold}
+          >
+            Sign transfer
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
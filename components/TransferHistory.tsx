@@ -100,7 +100,10 @@ export const TransferHistory: React.FC<TransferHistoryProps> = ({ selectedAccoun
 
   // Wrap the fetch logic in useCallback to avoid recreating the function on every render
   const fetchHistory = useCallback(async () => {
-    if (!selectedAccount) return;
+    if (!selectedAccount) {
+      setHistory([]); // Don't keep a disconnected account's transfers around
+      return;
+    }
 
     setIsLoading(true);
     try {
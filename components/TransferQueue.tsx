@@ -0,0 +1,187 @@
+"use client"
+
+import React from "react"
+import BigNumber from "bignumber.js"
+import toast from "react-hot-toast"
+import { AlertCircle, CheckCircle2, Clock, Loader2, XCircle } from "lucide-react"
+
+import {
+  getTransferProgress,
+  isTransferActive,
+  isTransferCancellable,
+  isTransferSettled,
+  type XcmTransferState,
+} from "@/hooks/use-xcm-transfer"
+import { DOT_DECIMALS, NETWORKS, ROUTES, formatUnits } from "@/lib/networks"
+
+interface TransferQueueProps {
+  items: XcmTransferState[]
+  onCancel: (id: number) => void
+  onDismiss: (id: number) => void
+}
+
+const copyRawError = async (raw: string) => {
+  try {
+    await navigator.clipboard.writeText(raw)
+    toast.success("Error copied to clipboard")
+  } catch (error) {
+    console.error("Failed to copy error:", error)
+    toast.error("Could not copy the error")
+  }
+}
+
+const TransferStatus: React.FC<{
+  item: XcmTransferState
+  position: number | null
+  onCancel: () => void
+  onDismiss: () => void
+}> = ({ item, position, onCancel, onDismiss }) => {
+  const route = ROUTES[item.direction!]
+  const isDelivered = item.phase === "delivered"
+  const isFailed = item.phase === "failed"
+  const isActive = isTransferActive(item.phase)
+  const total = item.recipients.reduce((sum, { amount }) => sum.plus(amount), new BigNumber(0))
+  const recipients = item.recipients.length > 1 ? `${item.recipients.length} recipients` : item.recipients[0]?.address
+
+  return (
+    <div
+      className={`p-4 rounded-md ${
+        isDelivered
+          ? "bg-green-50 border border-green-200"
+          : isFailed
+            ? "bg-red-50 border border-red-200"
+            : item.phase === "queued"
+              ? "bg-gray-50 border border-gray-200"
+              : "bg-yellow-50 border border-yellow-200"
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2 text-xs text-gray-600">
+        <span className="break-all">
+          {formatUnits(total, DOT_DECIMALS)} DOT · {NETWORKS[route.source].name} → {NETWORKS[route.destination].name} · {recipients}
+        </span>
+        {isTransferCancellable(item.phase) && (
+          <button type="button" onClick={onCancel} className="flex-shrink-0 text-red-600 hover:text-red-800">
+            Cancel
+          </button>
+        )}
+        {isTransferSettled(item.phase) && (
+          <button type="button" onClick={onDismiss} className="flex-shrink-0 text-gray-500 hover:text-gray-700">
+            Dismiss
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center mt-1">
+        {item.phase === "queued" && <Clock className="h-4 w-4 mr-2 text-gray-500" />}
+        {isActive && (
+          <Loader2 className="animate-spin h-4 w-4 mr-2 text-yellow-600" />
+        )}
+        {isFailed && <AlertCircle className="h-4 w-4 mr-2 text-red-600" />}
+        <p
+          className={`text-sm ${
+            isDelivered
+              ? "text-green-800"
+              : isFailed
+                ? "text-red-800"
+                : item.phase === "queued"
+                  ? "text-gray-700"
+                  : "text-yellow-800"
+          }`}
+        >
+          {item.message}
+          {position !== null && ` (#${position} in line)`}
+        </p>
+      </div>
+      {isFailed && item.error && (
+        <div className="mt-2 text-xs">
+          {item.error.hint && (
+            <p className="text-red-700">{item.error.hint}</p>
+          )}
+          <button
+            type="button"
+            onClick={() => copyRawError(item.error!.raw)}
+            className="mt-1 text-blue-600 hover:text-blue-800"
+          >
+            Copy raw error
+          </button>
+        </div>
+      )}
+      {item.txHash && (
+        <ol className="mt-3 flex flex-wrap gap-x-4 gap-y-1">
+          {getTransferProgress(item).map(({ stage, label, status }) => (
+            <li key={stage} className="flex items-center text-xs">
+              {status === "done" ? (
+                <CheckCircle2 className="h-3 w-3 mr-1 text-green-600" />
+              ) : status === "failed" ? (
+                <XCircle className="h-3 w-3 mr-1 text-red-600" />
+              ) : status === "current" ? (
+                <Loader2 className="animate-spin h-3 w-3 mr-1 text-yellow-600" />
+              ) : (
+                <span className="h-3 w-3 mr-1 rounded-full border border-gray-300" />
+              )}
+              <span className={status === "done" ? "text-gray-800" : status === "failed" ? "text-red-700" : "text-gray-400"}>
+                {label}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {item.txHash && (
+        <>
+          <p className="text-xs text-gray-500 mt-1 font-mono">Hash: {item.txHash}</p>
+          {item.nonce !== undefined && (
+            <p className="text-xs text-gray-500 mt-1">Nonce: {item.nonce}</p>
+          )}
+          {item.extrinsicStatus && (
+            <p className="text-xs text-gray-500 mt-1">Source status: {item.extrinsicStatus}</p>
+          )}
+          {item.inBlockHash && (
+            <p className="text-xs text-gray-500 mt-1">
+              {item.finalizedHash ? "Finalized in block " : "In block (not final) "}
+              <a
+                href={`${route.explorerUrl}/block/${item.inBlockHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono text-blue-600 hover:text-blue-800"
+              >
+                {item.inBlockHash.slice(0, 18)}…
+              </a>
+            </p>
+          )}
+          <a
+            href={`${route.explorerUrl}/extrinsic/${item.txHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-blue-600 hover:text-blue-800 mt-1 inline-flex items-center"
+          >
+            View on Subscan Explorer →
+          </a>
+        </>
+      )}
+    </div>
+  )
+}
+
+// Every queued, running and recently settled transfer, oldest first
+export const TransferQueue: React.FC<TransferQueueProps> = ({ items, onCancel, onDismiss }) => {
+  if (items.length === 0) return null
+
+  const queued = items.filter(({ phase }) => phase === "queued")
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => {
+        const index = queued.indexOf(item)
+        return (
+          <TransferStatus
+            key={item.id}
+            item={item}
+            position={index >= 0 ? index + 1 : null}
+            onCancel={() => onCancel(item.id)}
+            onDismiss={() => onDismiss(item.id)}
+          />
+        )
+      })}
+    </div>
+  )
+}
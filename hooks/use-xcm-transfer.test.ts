@@ -0,0 +1,130 @@
+import {
+  initialQueueState,
+  isTransferCancellable,
+  queueReducer,
+  type TransferPhase,
+  type TransferQueueAction,
+  type TransferQueueState,
+} from "@/hooks/use-xcm-transfer"
+
+const ID = 1
+
+const enqueue = (recipients = 1): TransferQueueState => queueReducer(initialQueueState, {
+  type: "ENQUEUE",
+  id: ID,
+  direction: "fromPolkadot",
+  account: "5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY",
+  recipients: Array.from({ length: recipients }, (_, index) => ({
+    address: `recipient-${index}`,
+    amount: "10000000000",
+    status: "pending" as const,
+  })),
+})
+
+// Actions that move a tracked transfer one phase further, in order
+const STEPS: [TransferPhase, TransferQueueAction][] = [
+  ["validating", { type: "START", id: ID }],
+  ["signing", { type: "SIGNING", id: ID, tracksDelivery: true, fees: "150000000" }],
+  ["broadcast", { type: "BROADCAST", id: ID, txHash: "0x01", status: "Ready" }],
+  ["inBlock", { type: "IN_BLOCK", id: ID, blockHash: "0x02" }],
+  ["finalized", { type: "FINALIZED", id: ID, blockHash: "0x02" }],
+  ["delivered", { type: "RECIPIENT", id: ID, index: 0, status: "credited" }],
+]
+
+const reduce = (state: TransferQueueState, actions: TransferQueueAction[]) => actions.reduce(queueReducer, state)
+
+// A transfer driven through every step up to `phase`
+const reach = (phase: TransferPhase) => {
+  if (phase === "queued") return enqueue()
+  if (phase === "failed") return reduce(enqueue(), [STEPS[0][1], { type: "FAIL", id: ID, message: "Dry-run failed" }])
+
+  const index = STEPS.findIndex(([step]) => step === phase)
+  return reduce(enqueue(), STEPS.slice(0, index + 1).map(([, action]) => action))
+}
+
+const item = (state: TransferQueueState) => state.items[0]
+
+test("moves through every phase up to delivery", () => {
+  let state = enqueue()
+  expect(item(state).phase).toBe("queued")
+
+  for (const [phase, action] of STEPS) {
+    state = queueReducer(state, action)
+    expect(item(state).phase).toBe(phase)
+  }
+
+  expect(item(state).recipients.map(({ status }) => status)).toEqual(["credited"])
+})
+
+test("records the nonce and fees of the signed transaction", () => {
+  const state = reduce(reach("signing"), [{ type: "NONCE", id: ID, nonce: 7 }])
+
+  expect(item(state).nonce).toBe(7)
+  expect(item(state).fees).toBe("150000000")
+})
+
+test("is delivered at finality when delivery is not tracked", () => {
+  const state = reduce(reach("validating"), [
+    { type: "SIGNING", id: ID, tracksDelivery: false, fees: "150000000" },
+    { type: "FINALIZED", id: ID, blockHash: "0x02" },
+  ])
+
+  expect(item(state).phase).toBe("delivered")
+})
+
+test("waits for every recipient of a batch before settling", () => {
+  let state = reduce(enqueue(2), STEPS.slice(0, 5).map(([, action]) => action))
+  state = queueReducer(state, { type: "RECIPIENT", id: ID, index: 0, status: "credited" })
+  expect(item(state).phase).toBe("finalized")
+
+  state = queueReducer(state, { type: "RECIPIENT", id: ID, index: 1, status: "failed", error: "Trapped" })
+  expect(item(state).phase).toBe("failed")
+  expect(item(state).message).toBe("1 of 2 transfers were credited on Unique Network")
+})
+
+test("goes back to broadcast when its block is retracted", () => {
+  const state = reduce(reach("inBlock"), [{ type: "RETRACTED", id: ID, blockHash: "0x02" }])
+
+  expect(item(state).phase).toBe("broadcast")
+  expect(item(state).inBlockHash).toBeUndefined()
+})
+
+test("ignores transitions that do not apply to the current phase", () => {
+  const queued = enqueue()
+  expect(queueReducer(queued, { type: "SIGNING", id: ID, tracksDelivery: true, fees: "0" })).toBe(queued)
+  expect(queueReducer(queued, { type: "START", id: ID + 1 })).toBe(queued)
+
+  const delivered = reach("delivered")
+  expect(queueReducer(delivered, { type: "IN_BLOCK", id: ID, blockHash: "0x03" })).toBe(delivered)
+})
+
+test.each(["validating", "signing", "broadcast", "inBlock", "finalized"] as TransferPhase[])(
+  "fails from %s",
+  (phase: TransferPhase) => {
+    const state = reduce(reach(phase), [{ type: "FAIL", id: ID, message: "Transaction failed" }])
+
+    expect(item(state).phase).toBe("failed")
+    expect(item(state).message).toBe("Transaction failed")
+    expect(item(state).recipients.map(({ status }) => status)).toEqual(["failed"])
+  }
+)
+
+test.each(["queued", "delivered", "failed"] as TransferPhase[])("does not fail from %s", (phase: TransferPhase) => {
+  const state = reach(phase)
+  expect(queueReducer(state, { type: "FAIL", id: ID, message: "Transaction failed" })).toBe(state)
+})
+
+test.each(["queued", "validating"] as TransferPhase[])("can be cancelled while %s", (phase: TransferPhase) => {
+  expect(isTransferCancellable(phase)).toBe(true)
+  expect(queueReducer(reach(phase), { type: "CANCEL", id: ID }).items).toEqual([])
+})
+
+test.each(["signing", "broadcast", "inBlock", "finalized", "delivered", "failed"] as TransferPhase[])(
+  "cannot be cancelled once %s",
+  (phase: TransferPhase) => {
+    const state = reach(phase)
+
+    expect(isTransferCancellable(phase)).toBe(false)
+    expect(queueReducer(state, { type: "CANCEL", id: ID })).toBe(state)
+  }
+)
@@ -0,0 +1,744 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type { ApiPromise } from "@polkadot/api"
+import type { InjectedAccountWithMeta } from "@polkadot/extension-inject/types"
+import type { EventRecord } from "@polkadot/types/interfaces"
+import BigNumber from "bignumber.js"
+
+import { DELIVERY_STAGES, extractMessageIds, watchDelivery, type DeliveryStage, type DeliveryWatcher } from "@/lib/delivery"
+import { dryRunTransfer, type DryRunChains } from "@/lib/dry-run"
+import { describeThrownError, type DecodedError } from "@/lib/errors"
+import { interpretExtrinsicResult } from "@/lib/extrinsic"
+import { estimateDestinationFee, estimateTransferFees, type FeeEstimate } from "@/lib/fees"
+import { DOT_DECIMALS, NETWORKS, ROUTES, formatUnits, type TransferDirection } from "@/lib/networks"
+import type { Recipient } from "@/lib/recipient"
+import { getWalletSigner } from "@/lib/wallets"
+import {
+  buildXcmTransfer,
+  getNetworkApi,
+  getTransferHops,
+  isCreditEvent,
+  type BuiltTransfer,
+  type XcmApis,
+} from "@/lib/transfer"
+
+// How long to wait for the destination chain to process and credit a transfer once it is in a source block
+const DELIVERY_TIMEOUT = 180000
+
+// How long a delivered transfer stays in the queue before it is removed
+const REMOVE_DELAY = 8000
+
+export type TransferPhase =
+  | "queued"
+  | "validating"
+  | "signing"
+  | "broadcast"
+  | "inBlock"
+  | "finalized"
+  | "delivered"
+  | "failed"
+
+export interface RecipientProgress {
+  address: string
+  // Planck
+  amount: string
+  status: "pending" | "sent" | "processed" | "credited" | "failed"
+  error?: string
+}
+
+export interface XcmTransferState {
+  // Increases with every transfer, identifies it in the queue
+  id: number
+  phase: TransferPhase
+  direction?: TransferDirection
+  // Address the transfer is sent from
+  account?: string
+  // Source-chain fees of the signed transaction, in planck
+  fees?: string
+  message?: string
+  // Nonce the transaction is signed with
+  nonce?: number
+  txHash?: string
+  // Latest ExtrinsicStatus type reported by the source chain
+  extrinsicStatus?: string
+  inBlockHash?: string
+  finalizedHash?: string
+  recipients: RecipientProgress[]
+  // Without a destination connection the transfer ends at source finality
+  tracksDelivery: boolean
+  // Decoded cause of a failure, with a hint and the raw error for copying
+  error?: DecodedError
+}
+
+export type XcmTransferAction =
+  | { type: "START"; id: number }
+  | { type: "SIGNING"; id: number; tracksDelivery: boolean; fees: string }
+  | { type: "NONCE"; id: number; nonce: number }
+  | { type: "BROADCAST"; id: number; txHash: string; status: string }
+  // error: the call failed in this block, which only counts once it is final
+  | { type: "IN_BLOCK"; id: number; blockHash: string; error?: DecodedError }
+  | { type: "RETRACTED"; id: number; blockHash: string }
+  | { type: "FINALIZED"; id: number; blockHash: string }
+  | { type: "RECIPIENT"; id: number; index: number; status: RecipientProgress["status"]; error?: string }
+  | { type: "FAIL"; id: number; message: string; error?: DecodedError }
+
+export interface TransferQueueState {
+  // In the order they were queued; queued items are signed one after the other
+  items: XcmTransferState[]
+}
+
+export type TransferQueueAction =
+  | XcmTransferAction
+  | { type: "ENQUEUE"; id: number; direction: TransferDirection; account: string; recipients: RecipientProgress[] }
+  // Withdraw a transfer that has not been signed yet, nothing is sent
+  | { type: "CANCEL"; id: number }
+  // Drop a delivered or failed transfer from the queue
+  | { type: "REMOVE"; id: number }
+
+export const initialQueueState: TransferQueueState = { items: [] }
+
+const ACTIVE_PHASES: TransferPhase[] = ["validating", "signing", "broadcast", "inBlock", "finalized"]
+
+export const isTransferActive = (phase: TransferPhase) => ACTIVE_PHASES.includes(phase)
+
+// Until the wallet is asked for a signature a transfer can still be withdrawn
+export const isTransferCancellable = (phase: TransferPhase) => phase === "queued" || phase === "validating"
+
+export const isTransferSettled = (phase: TransferPhase) => phase === "delivered" || phase === "failed"
+
+const isSettled = ({ status }: RecipientProgress) => status === "credited" || status === "failed"
+
+const markSent = (recipients: RecipientProgress[]) =>
+  recipients.map((recipient) => (recipient.status === "pending" ? { ...recipient, status: "sent" as const } : recipient))
+
+const routeNames = (direction: TransferDirection) => ({
+  sourceName: NETWORKS[ROUTES[direction].source].name,
+  destinationName: NETWORKS[ROUTES[direction].destination].name,
+})
+
+// A transfer is over once the source block is final and every recipient is credited or failed
+const settle = (state: XcmTransferState): XcmTransferState => {
+  if (state.phase !== "finalized" || !state.direction) return state
+  if (state.tracksDelivery && !state.recipients.every(isSettled)) return state
+
+  const { sourceName, destinationName } = routeNames(state.direction)
+  const count = state.recipients.length
+  const total = state.recipients.reduce((sum, { amount }) => sum.plus(amount), new BigNumber(0))
+  const credited = state.recipients.filter(({ status }) => status === "credited").length
+
+  if (state.tracksDelivery && credited < count) {
+    return { ...state, phase: "failed", message: `${credited} of ${count} transfers were credited on ${destinationName}` }
+  }
+
+  const recipients = count > 1 ? ` to ${count} recipients` : ""
+  const tracking = state.tracksDelivery ? "" : " (delivery not tracked without a destination connection)"
+
+  return {
+    ...state,
+    phase: "delivered",
+    message: `Successfully transferred ${formatUnits(total, DOT_DECIMALS)} DOT from ${sourceName} to ${destinationName}${recipients}${tracking}`,
+  }
+}
+
+// Pure state machine of one transfer: queued → validating → signing → broadcast → inBlock → finalized
+// → delivered, with failed reachable from every active phase. Transitions that do not apply are ignored.
+export const transferReducer = (state: XcmTransferState, action: XcmTransferAction): XcmTransferState => {
+  if (action.id !== state.id || !state.direction) return state
+
+  const { sourceName, destinationName } = routeNames(state.direction)
+
+  switch (action.type) {
+    case "START": {
+      if (state.phase !== "queued") return state
+
+      const count = state.recipients.length
+      return {
+        ...state,
+        phase: "validating",
+        message: count > 1 ? `Preparing batch of ${count} transfers...` : "Validating transfer...",
+      }
+    }
+
+    case "SIGNING":
+      if (state.phase !== "validating") return state
+      return {
+        ...state,
+        phase: "signing",
+        tracksDelivery: action.tracksDelivery,
+        fees: action.fees,
+        message: "Signing transaction...",
+      }
+
+    case "NONCE":
+      if (state.phase !== "signing") return state
+      return { ...state, nonce: action.nonce }
+
+    case "BROADCAST":
+      if (state.phase !== "signing" && state.phase !== "broadcast") return state
+      return {
+        ...state,
+        phase: "broadcast",
+        txHash: action.txHash,
+        extrinsicStatus: action.status,
+        message: "Signed, broadcasting...",
+      }
+
+    case "IN_BLOCK":
+      if (state.phase !== "signing" && state.phase !== "broadcast") return state
+      if (action.error) {
+        return {
+          ...state,
+          phase: "inBlock",
+          extrinsicStatus: "InBlock",
+          inBlockHash: action.blockHash,
+          message: `Failed in a ${sourceName} block (${action.error.message}), waiting for finality to confirm...`,
+        }
+      }
+      return {
+        ...state,
+        phase: "inBlock",
+        extrinsicStatus: "InBlock",
+        inBlockHash: action.blockHash,
+        recipients: markSent(state.recipients),
+        message: `Included in a ${sourceName} block, waiting for finality...`,
+      }
+
+    case "RETRACTED":
+      // Back in the pool: it will be included again, and success is re-checked then
+      if (state.phase !== "inBlock") return state
+      return {
+        ...state,
+        phase: "broadcast",
+        extrinsicStatus: "Retracted",
+        inBlockHash: undefined,
+        message: `${sourceName} block ${action.blockHash.slice(0, 10)}… was retracted by a reorg, waiting for the transaction to be included again...`,
+      }
+
+    case "FINALIZED":
+      if (state.phase !== "signing" && state.phase !== "broadcast" && state.phase !== "inBlock") return state
+      return settle({
+        ...state,
+        phase: "finalized",
+        extrinsicStatus: "Finalized",
+        inBlockHash: action.blockHash,
+        finalizedHash: action.blockHash,
+        recipients: markSent(state.recipients),
+        message: `Finalized on ${sourceName}, waiting for ${destinationName}...`,
+      })
+
+    case "RECIPIENT": {
+      if (!isTransferActive(state.phase)) return state
+
+      const recipients = state.recipients.map((recipient, index) =>
+        index === action.index && !isSettled(recipient) ? { ...recipient, status: action.status, error: action.error } : recipient
+      )
+
+      // Nothing can succeed any more, no need to wait for finality
+      if (recipients.every(({ status }) => status === "failed")) {
+        return {
+          ...state,
+          recipients,
+          phase: "failed",
+          message: recipients.length > 1
+            ? `None of the ${recipients.length} transfers were credited on ${destinationName}`
+            : `Delivery to ${destinationName} failed: ${action.error ?? "unknown error"}`,
+        }
+      }
+
+      return settle({ ...state, recipients })
+    }
+
+    case "FAIL":
+      if (!isTransferActive(state.phase)) return state
+      return {
+        ...state,
+        phase: "failed",
+        message: action.message,
+        error: action.error,
+        recipients: state.recipients.map((recipient) =>
+          isSettled(recipient) ? recipient : { ...recipient, status: "failed", error: action.message }
+        ),
+      }
+
+  }
+}
+
+export const queueReducer = (state: TransferQueueState, action: TransferQueueAction): TransferQueueState => {
+  switch (action.type) {
+    case "ENQUEUE":
+      return {
+        items: [...state.items, {
+          id: action.id,
+          phase: "queued",
+          direction: action.direction,
+          account: action.account,
+          recipients: action.recipients,
+          tracksDelivery: false,
+          message: "Waiting in queue...",
+        }],
+      }
+
+    case "CANCEL":
+    case "REMOVE": {
+      const canRemove = action.type === "CANCEL" ? isTransferCancellable : isTransferSettled
+      const items = state.items.filter(({ id, phase }) => id !== action.id || !canRemove(phase))
+      return items.length === state.items.length ? state : { items }
+    }
+
+    default: {
+      let changed = false
+      const items = state.items.map((item) => {
+        const next = transferReducer(item, action)
+        changed ||= next !== item
+        return next
+      })
+      return changed ? { items } : state
+    }
+  }
+}
+
+// DOT and source-chain fees of transfers signed from `account` on `source` that are not in a block yet.
+// Balances read from the chain already include everything in a block, but not these.
+export interface PendingSpend {
+  // Planck
+  amount: BigNumber
+  fees: BigNumber
+}
+
+export const getPendingSpend = (items: XcmTransferState[], source: string, account: string): PendingSpend =>
+  items
+    .filter((item) =>
+      (item.phase === "signing" || item.phase === "broadcast") &&
+      item.account === account &&
+      !!item.direction && ROUTES[item.direction].source === source
+    )
+    .reduce((pending, item) => ({
+      amount: item.recipients.reduce((sum, { amount }) => sum.plus(amount), pending.amount),
+      fees: pending.fees.plus(item.fees ?? 0),
+    }), { amount: new BigNumber(0), fees: new BigNumber(0) })
+
+export type ProgressStepStatus = "done" | "current" | "failed" | "pending"
+
+// Progress of a signed transfer through DELIVERY_STAGES, for the multi-step status view
+export const getTransferProgress = (state: XcmTransferState): { stage: DeliveryStage; label: string; status: ProgressStepStatus }[] => {
+  const { recipients } = state
+  const done: Record<DeliveryStage, boolean> = {
+    signed: !!state.txHash,
+    inBlock: !!state.inBlockHash,
+    finalized: !!state.finalizedHash,
+    delivered: recipients.length > 0 && recipients.every(({ status }) => status === "processed" || status === "credited"),
+    credited: recipients.length > 0 && recipients.every(({ status }) => status === "credited"),
+  }
+  const next = DELIVERY_STAGES.find(({ stage }) => !done[stage])?.stage
+
+  return DELIVERY_STAGES.map(({ stage, label }) => ({
+    stage,
+    label,
+    status: done[stage]
+      ? "done"
+      : stage !== next
+        ? "pending"
+        : state.phase === "failed" ? "failed" : isTransferActive(state.phase) ? "current" : "pending",
+  }))
+}
+
+// Shared by every component using the hook, so any of them can observe and drive the queue
+const listeners: Array<(state: TransferQueueState) => void> = []
+
+let memoryState: TransferQueueState = initialQueueState
+let lastTransferId = 0
+
+const dispatch = (action: TransferQueueAction) => {
+  const previous = memoryState
+  memoryState = queueReducer(memoryState, action)
+  if (memoryState === previous) return
+
+  memoryState.items.forEach(({ id, phase }) => {
+    if (phase === "delivered" && previous.items.find((item) => item.id === id)?.phase !== "delivered") {
+      setTimeout(() => dispatch({ type: "REMOVE", id }), REMOVE_DELAY)
+    }
+  })
+
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+const isQueued = (id: number) => memoryState.items.some((item) => item.id === id)
+
+// Exactly what is about to be signed, for a last confirmation
+export interface TransferSummary {
+  // Queue item being confirmed, the confirmation is void once it left the queue
+  id: number
+  direction: TransferDirection
+  transfers: {
+    recipient: Recipient
+    amount: BigNumber
+    // Execution fee the destination takes out of this transfer, null when it could not be estimated
+    destinationFee: BigNumber | null
+  }[]
+  // Planck
+  total: BigNumber
+  fees: FeeEstimate
+  xcmVersion: number
+}
+
+export interface TransferRequest {
+  direction: TransferDirection
+  transfers: { recipient: Recipient; amount: BigNumber }[]
+  // Throws to stop before signing, e.g. when the balance cannot cover the total plus fees.
+  // pending: what earlier transfers from the same account still take out of it;
+  // transfers: the requested transfers with what each destination takes out of them
+  validate?: (
+    total: BigNumber,
+    fees: FeeEstimate,
+    pending: PendingSpend,
+    transfers: TransferSummary["transfers"]
+  ) => void | Promise<void>
+  // Resolves to false to cancel without signing
+  confirm?: (summary: TransferSummary) => Promise<boolean>
+}
+
+// A queued request with the connections and account it was made with
+interface QueuedRequest extends TransferRequest {
+  apis: XcmApis
+  account: InjectedAccountWithMeta
+  dryRunChains: DryRunChains
+}
+
+const requests = new Map<number, QueuedRequest>()
+
+// Next nonce handed out per chain and account. The node's accountNextIndex already counts pool
+// transactions; this covers one that was just submitted and is not in the pool yet.
+const nextNonces = new Map<string, number>()
+
+const nonceKey = (api: ApiPromise, address: string) => `${api.genesisHash.toHex()}:${address}`
+
+// Nonce of a transaction the pool dropped, per chain and account. Transactions signed with a later
+// nonce before that was known wait for it in the pool and are never included.
+const droppedNonces = new Map<string, number>()
+
+// Stops following a submitted transfer that will not be included and fails it, by id
+const abandonTransfers = new Map<number, (message: string) => void>()
+
+const reserveNonce = async (api: ApiPromise, address: string): Promise<number> => {
+  const onChain = (await api.rpc.system.accountNextIndex(address)).toNumber()
+  // Read from the chain after a drop, so this nonce fills the gap it left
+  droppedNonces.delete(nonceKey(api, address))
+  return Math.max(onChain, nextNonces.get(nonceKey(api, address)) ?? 0)
+}
+
+// Fail the transfers submitted after a dropped one from the same account, they wait for its nonce
+const abandonLaterTransfers = (api: ApiPromise, source: string, address: string, nonce: number, droppedId: number) => {
+  droppedNonces.set(nonceKey(api, address), nonce)
+  nextNonces.delete(nonceKey(api, address))
+
+  memoryState.items
+    .filter((item) =>
+      item.account === address &&
+      !!item.direction && ROUTES[item.direction].source === source &&
+      item.nonce !== undefined && item.nonce > nonce &&
+      (item.phase === "signing" || item.phase === "broadcast")
+    )
+    .forEach((item) => abandonTransfers.get(item.id)?.(`Not included: transfer #${droppedId} before it was dropped`))
+}
+
+// Price what the destination keeps of each transfer, for the confirmation of exactly this transfer
+const withDestinationFees = async ({ apis, direction, transfers }: QueuedRequest, xcmVersion: number): Promise<TransferSummary["transfers"]> =>
+  Promise.all(transfers.map(async ({ recipient, amount }) => {
+    const destination = getTransferHops(apis, direction, recipient).at(-1)!
+    let destinationFee: BigNumber | null = null
+    if (destination.api) {
+      try {
+        const fee = await estimateDestinationFee(destination.api, xcmVersion, destination.location, amount.toString(), destination.incoming)
+        destinationFee = fee ?? null
+      } catch (error) {
+        console.error("Destination fee estimation failed:", error)
+      }
+    }
+    return { recipient, amount, destinationFee }
+  }))
+
+// Build, dry-run, price, sign and follow one transfer to one or more recipients. Several recipients
+// go out in one utility.batchAll: either all transfers are sent or none are. Resolves once the
+// transaction has been submitted (or has failed before that), while its status keeps updating.
+const runTransfer = async (id: number, request: QueuedRequest) => {
+  const { direction, transfers, validate, confirm, apis, account, dryRunChains } = request
+  const route = ROUTES[direction]
+  const { sourceName } = routeNames(direction)
+  const total = transfers.reduce((sum, { amount }) => sum.plus(amount), new BigNumber(0))
+
+  dispatch({ type: "START", id })
+
+  const watchers: DeliveryWatcher[] = []
+  const stopWatchers = () => watchers.forEach((watcher) => watcher.stop())
+
+  try {
+    console.log("Starting transfer:", {
+      direction,
+      recipients: transfers.map(({ recipient }) => recipient.address),
+      total: formatUnits(total, DOT_DECIMALS),
+    })
+
+    const built: BuiltTransfer[] = []
+    for (const { recipient, amount } of transfers) {
+      built.push(await buildXcmTransfer(apis, direction, amount, recipient))
+    }
+
+    const { api, xcmVersion } = built[0]
+    if (built.length > 1 && !api.tx.utility?.batchAll) {
+      throw new Error(`${sourceName} does not support batch calls`)
+    }
+    const tx = built.length > 1 ? api.tx.utility.batchAll(built.map(({ tx }) => tx)) : built[0].tx
+
+    // Dry-run and price the exact extrinsic about to be signed, the preflight estimate may be stale
+    const preflight = await dryRunTransfer(NETWORKS[route.source].chainId!, tx, account.address, dryRunChains, xcmVersion)
+    const failedStep = preflight.steps.find((step) => !step.success)
+    if (failedStep) {
+      const hint = failedStep.hint ? ` ${failedStep.hint}` : ""
+      throw new Error(`Dry-run failed on ${failedStep.chain}: ${failedStep.error ?? "unknown error"}.${hint}`)
+    }
+
+    const fees = await estimateTransferFees(api, tx, account.address, preflight.forwardedXcms)
+    const summaryTransfers = await withDestinationFees(request, xcmVersion)
+    await validate?.(total, fees, getPendingSpend(memoryState.items, route.source, account.address), summaryTransfers)
+
+    // Withdrawn from the queue while it was being built, dry-run or priced
+    if (!isQueued(id)) return
+
+    const confirmed = !confirm || await confirm({
+      id,
+      direction,
+      transfers: summaryTransfers,
+      total,
+      fees,
+      xcmVersion,
+    })
+    if (!confirmed) {
+      console.log("Transfer cancelled before signing")
+      dispatch({ type: "CANCEL", id })
+      return
+    }
+
+    // Withdrawn from the queue while the confirmation was open
+    if (!isQueued(id)) return
+
+    const signer = getWalletSigner(account)
+    const destinationApi = getNetworkApi(apis, route.destination)
+
+    // Past this point the transfer goes to the wallet and can no longer be withdrawn
+    dispatch({ type: "SIGNING", id, tracksDelivery: !!destinationApi, fees: fees.total.toFixed() })
+
+    // Start watching the destination before signing so an early delivery is not missed
+    if (destinationApi) {
+      for (const [index, { recipient, amount }] of transfers.entries()) {
+        watchers.push(await watchDelivery(
+          destinationApi,
+          (record) => isCreditEvent(route.destination, recipient.accountId, amount, record),
+          {
+            onDelivered: () => dispatch({ type: "RECIPIENT", id, index, status: "processed" }),
+            onCredited: () => dispatch({ type: "RECIPIENT", id, index, status: "credited" }),
+            onFailed: (reason) => dispatch({ type: "RECIPIENT", id, index, status: "failed", error: reason }),
+          },
+          DELIVERY_TIMEOUT
+        ))
+      }
+    }
+
+    const nonce = await reserveNonce(api, account.address)
+    dispatch({ type: "NONCE", id, nonce })
+
+    // Each transfer sends exactly one message, in order
+    const trackMessages = (records: EventRecord[]) => {
+      const messageIds = extractMessageIds(records)
+      console.log("XCM message IDs:", messageIds)
+      watchers.forEach((watcher, index) => watcher.setMessageId(messageIds[index]))
+    }
+
+    if (!isQueued(id)) {
+      stopWatchers()
+      return
+    }
+
+    const unsub = await tx.signAndSend(account.address, { signer, nonce }, (result) => {
+      const update = interpretExtrinsicResult(api, result)
+      console.log(`${sourceName} transaction status:`, result.status.type, update)
+
+      switch (update.type) {
+        case "pending":
+          dispatch({ type: "BROADCAST", id, txHash: result.txHash.toHex(), status: update.status })
+          break
+        case "inBlock":
+          trackMessages(result.events)
+          dispatch({ type: "IN_BLOCK", id, blockHash: update.blockHash })
+          break
+        case "retracted":
+          dispatch({ type: "RETRACTED", id, blockHash: update.blockHash })
+          break
+        case "finalized":
+          unsub()
+          abandonTransfers.delete(id)
+          // The finalized block's events are authoritative if a reorg moved the extrinsic
+          trackMessages(result.events)
+          dispatch({ type: "FINALIZED", id, blockHash: update.blockHash })
+          break
+        case "failed":
+          // A reorg may still include the transaction again and succeed, only finality decides
+          if (!update.finalized) {
+            dispatch({ type: "IN_BLOCK", id, blockHash: update.blockHash, error: update.error })
+            break
+          }
+          stopWatchers()
+          unsub()
+          abandonTransfers.delete(id)
+          dispatch({
+            type: "FAIL",
+            id,
+            message: `Transaction failed on ${sourceName}: ${update.error.message}`,
+            error: update.error,
+          })
+          break
+        case "terminal":
+          stopWatchers()
+          unsub()
+          abandonTransfers.delete(id)
+          dispatch({ type: "FAIL", id, message: update.error.message, error: update.error })
+          // The nonce may not have been used, later ones then never are
+          abandonLaterTransfers(api, route.source, account.address, nonce, id)
+          break
+      }
+    })
+
+    abandonTransfers.set(id, (message) => {
+      stopWatchers()
+      unsub()
+      abandonTransfers.delete(id)
+      dispatch({ type: "FAIL", id, message })
+    })
+
+    // An earlier transfer was dropped while this one was being signed
+    const dropped = droppedNonces.get(nonceKey(api, account.address))
+    if (dropped !== undefined && nonce > dropped) {
+      abandonTransfers.get(id)?.("Not included: a transfer before it was dropped")
+      return
+    }
+
+    nextNonces.set(nonceKey(api, account.address), nonce + 1)
+  } catch (error) {
+    console.error("Transfer failed:", error)
+    stopWatchers()
+    const decoded = describeThrownError(error, "Transfer failed")
+    dispatch({ type: "FAIL", id, message: decoded.message, error: decoded })
+  }
+}
+
+let isProcessing = false
+
+// Sign queued transfers back to back: the next one starts as soon as the previous was submitted
+const processQueue = async () => {
+  if (isProcessing) return
+  isProcessing = true
+
+  try {
+    let next: XcmTransferState | undefined
+    while ((next = memoryState.items.find(({ phase }) => phase === "queued"))) {
+      const request = requests.get(next.id)
+      requests.delete(next.id)
+
+      if (request) {
+        await runTransfer(next.id, request)
+      } else {
+        dispatch({ type: "CANCEL", id: next.id })
+      }
+    }
+  } finally {
+    isProcessing = false
+  }
+}
+
+interface UseXcmTransferOptions {
+  apis: XcmApis
+  account: InjectedAccountWithMeta | null
+  // Called once per transfer that ends in "delivered" or "failed" while this component is mounted
+  onSettled?: (state: XcmTransferState) => void
+}
+
+export const useXcmTransfer = ({ apis, account, onSettled }: UseXcmTransferOptions) => {
+  const [state, setState] = useState<TransferQueueState>(memoryState)
+
+  useEffect(() => {
+    listeners.push(setState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  const onSettledRef = useRef(onSettled)
+  onSettledRef.current = onSettled
+  const reportedIds = useRef(new Set(memoryState.items.filter(({ phase }) => isTransferSettled(phase)).map(({ id }) => id)))
+
+  useEffect(() => {
+    state.items.forEach((item) => {
+      if (isTransferSettled(item.phase) && !reportedIds.current.has(item.id)) {
+        reportedIds.current.add(item.id)
+        onSettledRef.current?.(item)
+      }
+    })
+  }, [state])
+
+  // Every chain a dry-run can follow forwarded messages to
+  const dryRunChains = useMemo<DryRunChains>(() => ({
+    [NETWORKS.polkadot.chainId!]: { name: NETWORKS.polkadot.name, api: apis.polkadot },
+    [NETWORKS.assetHub.chainId!]: { name: NETWORKS.assetHub.name, api: apis.assetHub },
+    [NETWORKS.unique.chainId!]: { name: NETWORKS.unique.name, api: apis.unique },
+  }), [apis])
+
+  const buildTransfer = useCallback(
+    (direction: TransferDirection, amount: BigNumber, recipient: Recipient) =>
+      buildXcmTransfer(apis, direction, amount, recipient),
+    [apis]
+  )
+
+  // Add a transfer to the queue, returns its id
+  const enqueue = useCallback((request: TransferRequest): number | null => {
+    if (!account || request.transfers.length === 0) return null
+
+    const id = ++lastTransferId
+    requests.set(id, { ...request, apis, account, dryRunChains })
+    dispatch({
+      type: "ENQUEUE",
+      id,
+      direction: request.direction,
+      account: account.address,
+      recipients: request.transfers.map(({ recipient, amount }) => ({
+        address: recipient.address,
+        amount: amount.toFixed(),
+        status: "pending",
+      })),
+    })
+
+    void processQueue()
+    return id
+  }, [account, apis, dryRunChains])
+
+  const cancel = useCallback((id: number) => {
+    requests.delete(id)
+    dispatch({ type: "CANCEL", id })
+  }, [])
+
+  const dismiss = useCallback((id: number) => dispatch({ type: "REMOVE", id }), [])
+
+  return {
+    queue: state.items,
+    isActive: state.items.some(({ phase }) => isTransferActive(phase)),
+    enqueue,
+    cancel,
+    dismiss,
+    buildTransfer,
+    dryRunChains,
+  }
+}
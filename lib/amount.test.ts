@@ -0,0 +1,31 @@
+import { parseAmount } from "@/lib/amount"
+
+const DOT_DECIMALS = 10
+
+const parse = (input: string) => parseAmount(input, DOT_DECIMALS).toFixed()
+
+test("parses amounts written in common locales", () => {
+  expect(parse("1234.5")).toBe("12345000000000")
+  expect(parse("1 234,5")).toBe("12345000000000")
+  expect(parse("1,234.5")).toBe("12345000000000")
+  expect(parse("1.234,5")).toBe("12345000000000")
+  expect(parse("0.001")).toBe("10000000")
+})
+
+test("reads repeated separators as digit grouping", () => {
+  expect(parse("1,000,000")).toBe("10000000000000000")
+  expect(parse("1.000.000")).toBe("10000000000000000")
+})
+
+test("refuses a single separator that could be grouping or a fraction", () => {
+  expect(() => parse("1,000")).toThrow("could mean thousands or a fraction")
+  expect(() => parse("1.000")).toThrow("could mean thousands or a fraction")
+  expect(parse("1.0000")).toBe("10000000000")
+  expect(parse("1,50")).toBe("15000000000")
+})
+
+test("rejects invalid amounts", () => {
+  expect(() => parse("")).toThrow("Enter an amount")
+  expect(() => parse("12a")).toThrow("is not a valid amount")
+  expect(() => parse("0.00000000001")).toThrow("At most 10 decimal places are supported")
+})
@@ -0,0 +1,49 @@
+import BigNumber from "bignumber.js"
+
+// Spaces, apostrophes and underscores people use to group digits
+const GROUPING = /[\s'_\u00a0\u202f]/g
+
+const count = (text: string, char: string) => text.split(char).length - 1
+
+// Which of "." and "," separates the fraction. With both present the last one does; a single
+// kind separates the fraction when it appears once and only groups digits when repeated.
+// Once followed by exactly three digits it could be either ("1,000"), so that is refused.
+const findDecimalSeparator = (text: string, input: string): "." | "," | null => {
+  const dots = count(text, ".")
+  const commas = count(text, ",")
+
+  if (dots > 0 && commas > 0) return text.lastIndexOf(".") > text.lastIndexOf(",") ? "." : ","
+
+  const separator = dots === 1 ? "." : commas === 1 ? "," : null
+  if (separator && /^0*[1-9][0-9]{0,2}[.,][0-9]{3}$/.test(text)) {
+    throw new Error(`"${input}" could mean thousands or a fraction, leave out the digit grouping`)
+  }
+  return separator
+}
+
+// Parse a token amount typed in any common locale ("1234.5", "1 234,5", "1,234.5", "1.234,5")
+// into an integer amount of the smallest unit, without going through floating point
+export const parseAmount = (input: string, decimals: number): BigNumber => {
+  const text = input.trim().replace(GROUPING, "")
+  if (!text) throw new Error("Enter an amount")
+
+  const invalid = new Error(`"${input.trim()}" is not a valid amount`)
+  if (!/^[0-9.,]+$/.test(text)) throw invalid
+
+  const separator = findDecimalSeparator(text, input.trim())
+  const split = separator ? text.lastIndexOf(separator) : text.length
+  const integer = text.slice(0, split).replace(/[.,]/g, "")
+  const fraction = text.slice(split + 1)
+
+  if (/[.,]/.test(fraction) || (!integer && !fraction)) throw invalid
+
+  if (fraction.length > decimals) {
+    throw new Error(`At most ${decimals} decimal places are supported`)
+  }
+
+  return new BigNumber(`${integer || "0"}${fraction.padEnd(decimals, "0")}`)
+}
+
+// Whole units, such as a configured DOT limit, in the smallest unit
+export const toPlanck = (value: BigNumber.Value, decimals: number): BigNumber =>
+  new BigNumber(value).shiftedBy(decimals).integerValue(BigNumber.ROUND_DOWN)
@@ -0,0 +1,49 @@
+import type { ApiPromise } from "@polkadot/api"
+import BigNumber from "bignumber.js"
+
+// Native account balances in the chain's smallest unit
+export interface AccountBalances {
+  free: BigNumber
+  reserved: BigNumber
+  frozen: BigNumber
+}
+
+// Read system.account data, older runtimes split frozen into miscFrozen / feeFrozen
+export const toAccountBalances = (data: any): AccountBalances => {
+  const frozen = data.frozen !== undefined
+    ? new BigNumber(data.frozen.toString())
+    : BigNumber.max(new BigNumber(data.miscFrozen?.toString() ?? 0), new BigNumber(data.feeFrozen?.toString() ?? 0))
+
+  return {
+    free: new BigNumber(data.free.toString()),
+    reserved: new BigNumber(data.reserved.toString()),
+    frozen,
+  }
+}
+
+// Free plus reserved balance of several accounts, in one query
+export const queryTotalBalances = async (api: ApiPromise, addresses: string[]): Promise<BigNumber[]> => {
+  const infos: any[] = await api.query.system.account.multi(addresses)
+  return infos.map(({ data }) => new BigNumber(data.free.toString()).plus(data.reserved.toString()))
+}
+
+export const getExistentialDeposit = (api: ApiPromise): BigNumber =>
+  new BigNumber(api.consts.balances.existentialDeposit.toString())
+
+// Spendable balance as pallet-balances computes it: frozen funds overlap reserved ones,
+// and keep-alive also holds back the existential deposit
+export const getTransferableBalance = (
+  { free, reserved, frozen }: AccountBalances,
+  existentialDeposit: BigNumber,
+  keepAlive: boolean
+): BigNumber => {
+  const locked = BigNumber.max(frozen.minus(reserved), 0)
+  const untouchable = BigNumber.max(locked, keepAlive ? existentialDeposit : 0)
+  return BigNumber.max(free.minus(untouchable), 0)
+}
+
+// An account exists while something provides for it: a native balance above ED, or a sufficient asset
+export const queryAccountExists = async (api: ApiPromise, accountId: string): Promise<boolean> => {
+  const { providers, sufficients }: any = await api.query.system.account(accountId)
+  return !providers.isZero() || !sufficients.isZero()
+}
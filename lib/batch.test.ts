@@ -0,0 +1,55 @@
+import BigNumber from "bignumber.js"
+import { u8aToHex } from "@polkadot/util"
+import { decodeAddress } from "@polkadot/util-crypto"
+
+import { parseBatchInput } from "@/lib/batch"
+
+const ALICE = "5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY"
+const BOB = "5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty"
+
+const LIMITS = {
+  ss58Format: 0,
+  allowEvm: false,
+  decimals: 10,
+  min: new BigNumber("0.001"),
+  max: new BigNumber(10000),
+}
+
+const parse = (input: string) => {
+  const { rows, errors } = parseBatchInput(input, LIMITS)
+  return { rows: rows.map(({ line, recipient, planck }) => [line, recipient.accountId, planck.toFixed()]), errors }
+}
+
+const ALICE_ID = u8aToHex(decodeAddress(ALICE))
+const BOB_ID = u8aToHex(decodeAddress(BOB))
+
+test("parses comma, semicolon, tab and space separated lines", () => {
+  const { rows, errors } = parse(`${ALICE}, 1.5\n${BOB}; 2,5\n${ALICE}\t3\n${BOB} 4`)
+
+  expect(errors).toEqual([])
+  expect(rows).toEqual([
+    [1, ALICE_ID, "15000000000"],
+    [2, BOB_ID, "25000000000"],
+    [3, ALICE_ID, "30000000000"],
+    [4, BOB_ID, "40000000000"],
+  ])
+})
+
+test("keeps separators inside quoted fields", () => {
+  const { rows, errors } = parse(`"address","amount"\n"${ALICE}","1,5"\n"${BOB}", "1 234,25"`)
+
+  expect(errors).toEqual([])
+  expect(rows).toEqual([
+    [2, ALICE_ID, "15000000000"],
+    [3, BOB_ID, "12342500000000"],
+  ])
+})
+
+test("skips comments and empty lines and reports invalid lines", () => {
+  const { rows, errors } = parse(`# payouts\n\n${ALICE}, 1, 2\n${BOB}, 50000\nnot-an-address, 1`)
+
+  expect(rows).toEqual([])
+  expect(errors).toHaveLength(3)
+  expect(errors[0]).toBe(`Line 3: expected "address, amount"`)
+  expect(errors[1]).toBe("Line 4: amount must be between 0.001 and 10000 DOT")
+})
@@ -0,0 +1,83 @@
+import BigNumber from "bignumber.js"
+
+import { parseAmount } from "@/lib/amount"
+import { parseRecipient, type Recipient } from "@/lib/recipient"
+
+export interface BatchRow {
+  // 1-based line in the input, for error messages
+  line: number
+  recipient: Recipient
+  // Exactly as parsed, in planck
+  planck: BigNumber
+}
+
+export interface BatchParseResult {
+  rows: BatchRow[]
+  errors: string[]
+}
+
+interface BatchLimits {
+  ss58Format: number
+  allowEvm: boolean
+  decimals: number
+  // DOT
+  min: BigNumber
+  max: BigNumber
+}
+
+// Split a line into its fields; a field may be quoted, as spreadsheets export it, and then keeps
+// its separators ("1,5" is one field)
+const splitFields = (text: string): string[] => {
+  const quoted: string[] = []
+  const masked = text.replace(/"([^"]*)"/g, (_, value: string) => `\u0000${quoted.push(value) - 1}\u0000`)
+
+  // A tab or semicolon separated line may use "," as its decimal separator
+  const fields = /[\t;]/.test(masked) ? masked.split(/\s*[;\t]\s*/) : masked.split(/\s*,\s*|\s+/)
+  return fields.map((field) => field.replace(/\u0000(\d+)\u0000/g, (_, index: string) => quoted[Number(index)].trim()))
+}
+
+// One "address, amount" pair per line, separated by a comma, semicolon, tab or spaces, optionally
+// in double quotes. Empty lines, # comments and a leading header row are skipped.
+export const parseBatchInput = (input: string, limits: BatchLimits): BatchParseResult => {
+  const rows: BatchRow[] = []
+  const errors: string[] = []
+
+  input.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1
+    const text = raw.trim()
+    if (!text || text.startsWith("#")) return
+
+    const [address, amount, ...rest] = splitFields(text)
+
+    if (rows.length === 0 && errors.length === 0 && /^[a-z\s()]+$/i.test(amount ?? "")) {
+      return // header row
+    }
+
+    if (!amount || rest.length > 0) {
+      errors.push(`Line ${line}: expected "address, amount"`)
+      return
+    }
+
+    let planck: BigNumber
+    try {
+      planck = parseAmount(amount, limits.decimals)
+    } catch (error) {
+      errors.push(`Line ${line}: ${error instanceof Error ? error.message : `"${amount}" is not a valid DOT amount`}`)
+      return
+    }
+
+    const value = planck.shiftedBy(-limits.decimals)
+    if (value.lt(limits.min) || value.gt(limits.max)) {
+      errors.push(`Line ${line}: amount must be between ${limits.min.toFixed()} and ${limits.max.toFixed()} DOT`)
+      return
+    }
+
+    try {
+      rows.push({ line, recipient: parseRecipient(address, limits.ss58Format, limits.allowEvm), planck })
+    } catch (error) {
+      errors.push(`Line ${line}: ${error instanceof Error ? error.message : "invalid address"}`)
+    }
+  })
+
+  return { rows, errors }
+}
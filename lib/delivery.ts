@@ -0,0 +1,157 @@
+import type { ApiPromise } from "@polkadot/api"
+import type { EventRecord } from "@polkadot/types/interfaces"
+
+export type DeliveryStage = "signed" | "inBlock" | "finalized" | "delivered" | "credited"
+
+export const DELIVERY_STAGES: { stage: DeliveryStage; label: string }[] = [
+  { stage: "signed", label: "Signed" },
+  { stage: "inBlock", label: "In block" },
+  { stage: "finalized", label: "Finalized" },
+  { stage: "delivered", label: "Delivered" },
+  { stage: "credited", label: "Credited" },
+]
+
+interface DeliveryCallbacks {
+  onDelivered: () => void
+  onCredited: () => void
+  onFailed: (reason: string) => void
+}
+
+export interface DeliveryWatcher {
+  // The message ID is only known once the source extrinsic is in a block
+  setMessageId: (messageId: string | undefined) => void
+  stop: () => void
+}
+
+// Message IDs / topics of every XCM the source extrinsic sent, in order, from pallet-xcm's Sent events
+export const extractMessageIds = (records: EventRecord[]): string[] =>
+  records.flatMap(({ event }) => {
+    const isXcmPallet = event.section === "xcmPallet" || event.section === "polkadotXcm"
+    if (!isXcmPallet || event.method !== "Sent") return []
+
+    const { messageId } = event.data as any
+    return messageId ? [messageId.toHex() as string] : []
+  })
+
+export const extractMessageId = (records: EventRecord[]): string | undefined => extractMessageIds(records)[0]
+
+interface ProcessedMessage {
+  success: boolean
+  error?: string
+  // Whether a deposit for this transfer was made while the message executed
+  credited: boolean
+}
+
+// messageQueue reports Processed after the message's own events, in the same phase of the block.
+// Everything since the previous queue event of that phase belongs to the message, so a deposit
+// is tied to one message ID rather than to any transfer to the same account.
+const collectProcessedMessages = (
+  records: EventRecord[],
+  isCredit: (record: EventRecord) => boolean,
+  processed: Map<string, ProcessedMessage>
+) => {
+  let window: EventRecord[] = []
+
+  for (const record of records) {
+    const { event, phase } = record
+    if (window.length > 0 && !window[window.length - 1].phase.eq(phase)) window = []
+
+    const isProcessed = event.section === "messageQueue" && event.method === "Processed"
+    const isFailed = event.section === "messageQueue" && event.method === "ProcessingFailed"
+    if (!isProcessed && !isFailed) {
+      window.push(record)
+      continue
+    }
+
+    const { id, success, error } = event.data as any
+    processed.set(id.toHex(), isProcessed
+      ? { success: success.isTrue, credited: success.isTrue && window.some(isCredit) }
+      : { success: false, error: error.toString(), credited: false })
+    window = []
+  }
+}
+
+// Follow the destination chain's events until the message is processed and the funds show up.
+// `isCredit` decides which deposit event belongs to this transfer.
+export const watchDelivery = async (
+  api: ApiPromise,
+  isCredit: (record: EventRecord) => boolean,
+  callbacks: DeliveryCallbacks,
+  timeoutMs: number
+): Promise<DeliveryWatcher> => {
+  let messageId: string | undefined
+  let delivered = false
+  let finished = false
+  // Processed events seen before the source block told us which message ID to look for
+  const processed = new Map<string, ProcessedMessage>()
+  // Runtimes without the message queue pallet never report Processed, any matching deposit has to do
+  const hasMessageQueue = !!api.events.messageQueue?.Processed
+  let timeout: ReturnType<typeof setTimeout> | undefined
+  let unsub: (() => void) | undefined
+
+  const finish = () => {
+    finished = true
+    if (timeout) clearTimeout(timeout)
+    unsub?.()
+  }
+
+  const checkProcessed = () => {
+    if (!messageId || delivered || finished) return
+
+    const outcome = processed.get(messageId)
+    if (!outcome) return
+
+    if (outcome.success) {
+      delivered = true
+      callbacks.onDelivered()
+      if (outcome.credited) {
+        finish()
+        callbacks.onCredited()
+      }
+    } else {
+      finish()
+      callbacks.onFailed(outcome.error ?? "Message failed to execute on the destination chain")
+    }
+  }
+
+  unsub = (await api.query.system.events((records: EventRecord[]) => {
+    if (finished) return
+
+    if (hasMessageQueue) {
+      collectProcessedMessages(records, isCredit, processed)
+      checkProcessed()
+      return
+    }
+
+    if (records.some(isCredit)) {
+      // The deposit is all there is to go by, it implies the message was processed
+      delivered = true
+      callbacks.onDelivered()
+      finish()
+      callbacks.onCredited()
+    }
+  })) as unknown as () => void
+
+  // The first events may already have settled the transfer before the subscription resolved
+  if (finished) unsub()
+
+  return {
+    setMessageId: (id) => {
+      messageId = id
+
+      // Counted from the source block that sent the message, not from while the wallet asks to sign
+      if (!timeout && !finished) {
+        timeout = setTimeout(() => {
+          if (finished) return
+          finish()
+          callbacks.onFailed("Timed out waiting for the destination chain")
+        }, timeoutMs)
+      }
+
+      checkProcessed()
+    },
+    stop: () => {
+      if (!finished) finish()
+    },
+  }
+}
@@ -0,0 +1,142 @@
+import type { ApiPromise } from "@polkadot/api"
+import type { AugmentedCall, SubmittableExtrinsic } from "@polkadot/api/types"
+import { decodeDispatchError, decodeXcmOutcome } from "@/lib/errors"
+import { parachain, toVersionedLocation, type XcmLocation } from "@/lib/xcm"
+
+// Remote-reserve routes hop through the relay, so follow forwarded messages a few levels deep
+const MAX_DRY_RUN_HOPS = 3
+
+export interface DryRunStep {
+  chain: string
+  success: boolean
+  skipped?: boolean
+  error?: string
+  hint?: string
+}
+
+export interface DryRunResult {
+  success: boolean
+  steps: DryRunStep[]
+  // Messages the source chain would send, used to price delivery fees
+  forwardedXcms: any[]
+}
+
+// Chains a forwarded message can be followed to, keyed by para ID (0 for the relay chain)
+export type DryRunChains = Record<number, { name: string; api: ApiPromise | null }>
+
+const hasDryRunApi = (api: ApiPromise | null, method: "dryRunCall" | "dryRunXcm") =>
+  !!api?.call.dryRunApi?.[method]
+
+// Work out which chain a forwarded message goes to, relative to the chain that sent it
+const resolveForwardedChain = (currentParaId: number, location: any): number | undefined => {
+  const [inner] = Object.values(location ?? {}) as any[]
+  if (!inner) return undefined
+
+  const [interiorKey, interiorValue] = Object.entries(inner.interior ?? {})[0] ?? []
+  const junctions = interiorKey && interiorKey.toLowerCase() !== "here"
+    ? (Array.isArray(interiorValue) ? interiorValue : [interiorValue])
+    : []
+  const paraId = junctions.length === 1 ? (junctions[0] as any)?.parachain : undefined
+
+  if (currentParaId === 0) {
+    return inner.parents === 0 && paraId !== undefined ? Number(paraId) : undefined
+  }
+
+  if (inner.parents !== 1) return undefined
+  return junctions.length === 0 ? 0 : paraId !== undefined ? Number(paraId) : undefined
+}
+
+// The sending chain as seen from the chain receiving its message
+const getOriginLocation = (fromParaId: number, toParaId: number): XcmLocation => {
+  if (fromParaId === 0) return { parents: 1, interior: [] }
+  return { parents: toParaId === 0 ? 0 : 1, interior: [parachain(fromParaId)] }
+}
+
+const getLocationVersion = (location: any): number => {
+  const [key] = Object.keys(location ?? {})
+  return parseInt((key ?? "v4").replace(/^v/i, ""), 10)
+}
+
+// Dry-run forwarded messages on every chain we hold an API for, following further hops
+const dryRunForwarded = async (
+  fromParaId: number,
+  forwarded: any[],
+  chains: DryRunChains,
+  depth: number
+): Promise<DryRunStep[]> => {
+  const steps: DryRunStep[] = []
+  if (depth >= MAX_DRY_RUN_HOPS) return steps
+
+  for (const [destination, messages] of forwarded) {
+    const destinationJson = destination.toJSON()
+    const toParaId = resolveForwardedChain(fromParaId, destinationJson)
+    const chain = toParaId !== undefined ? chains[toParaId] : undefined
+    if (toParaId === undefined || !chain) continue
+
+    if (!chain.api || !hasDryRunApi(chain.api, "dryRunXcm")) {
+      steps.push({ chain: chain.name, success: true, skipped: true })
+      continue
+    }
+
+    const origin = toVersionedLocation(getLocationVersion(destinationJson), getOriginLocation(fromParaId, toParaId))
+
+    for (const message of messages) {
+      const result: any = await chain.api.call.dryRunApi.dryRunXcm(origin, message)
+
+      if (result.isErr) {
+        steps.push({ chain: chain.name, success: false, error: result.asErr.toString() })
+        continue
+      }
+
+      const effects = result.asOk
+      const error = decodeXcmOutcome(effects.executionResult.toJSON())
+      steps.push({ chain: chain.name, success: !error, error: error?.message, hint: error?.hint })
+
+      if (!error) {
+        steps.push(...await dryRunForwarded(toParaId, effects.forwardedXcms, chains, depth + 1))
+      }
+    }
+  }
+
+  return steps
+}
+
+// Run a signed extrinsic through the source chain's DryRunApi and replay whatever XCM it
+// would send on the destination chains, without touching the user's funds
+export const dryRunTransfer = async (
+  sourceParaId: number,
+  tx: SubmittableExtrinsic<"promise">,
+  address: string,
+  chains: DryRunChains,
+  xcmVersion: number
+): Promise<DryRunResult> => {
+  const source = chains[sourceParaId]
+  const api = source?.api
+
+  if (!api || !hasDryRunApi(api, "dryRunCall")) {
+    return { success: true, steps: [{ chain: source?.name ?? "Source", success: true, skipped: true }], forwardedXcms: [] }
+  }
+
+  const origin = { System: { Signed: address } }
+  const dryRunCall = api.call.dryRunApi.dryRunCall as AugmentedCall<"promise">
+  // Older runtimes take (origin, call), newer ones also want the XCM version for forwarded messages
+  const result: any = dryRunCall.meta.params.length > 2
+    ? await dryRunCall(origin, tx.method, xcmVersion)
+    : await dryRunCall(origin, tx.method)
+
+  if (result.isErr) {
+    const steps = [{ chain: source.name, success: false, error: result.asErr.toString() }]
+    return { success: false, steps, forwardedXcms: [] }
+  }
+
+  const effects = result.asOk
+  if (effects.executionResult.isErr) {
+    const { message, hint } = decodeDispatchError(api, effects.executionResult.asErr.error)
+    return { success: false, steps: [{ chain: source.name, success: false, error: message, hint }], forwardedXcms: [] }
+  }
+
+  const steps: DryRunStep[] = [{ chain: source.name, success: true }]
+  steps.push(...await dryRunForwarded(sourceParaId, effects.forwardedXcms, chains, 0))
+
+  return { success: steps.every((step) => step.success), steps, forwardedXcms: effects.forwardedXcms }
+}
@@ -0,0 +1,86 @@
+import type { ApiPromise } from "@polkadot/api"
+import type { DispatchError } from "@polkadot/types/interfaces"
+
+export interface DecodedError {
+  message: string
+  // What the user can do about it, for errors we recognise
+  hint?: string
+  // Undecoded error as reported by the chain or thrown by the API, for copying into a bug report
+  raw: string
+}
+
+// Keyed by the error variant name, whichever pallet or XCM instruction raised it
+const ERROR_HINTS: Record<string, string> = {
+  TooExpensive: "The destination wants more for execution than the fee covers. Send a larger amount or retry with a higher weight limit.",
+  NotHoldingFees: "No fee asset was left to buy execution. The amount is probably too small to cover the destination fee.",
+  Filtered: "The chain's call filter rejected this transfer. The route or asset may be disabled right now.",
+  Transport: "The message could not be handed to the next chain. The channel may be closed or congested, try again later.",
+  SendFailure: "The message could not be handed to the next chain. The channel may be closed or congested, try again later.",
+  Unroutable: "The source chain has no route to the destination. Check that the selected direction is supported.",
+  Barrier: "The receiving chain rejected the message before executing it, usually because it does not pay for execution first.",
+  UntrustedReserveLocation: "The receiving chain does not accept DOT from the reserve used by this route.",
+  AssetNotFound: "The receiving chain does not recognise DOT at the location used. The asset may not be registered there.",
+  FailedToTransactAsset: "The asset could not be withdrawn or deposited, usually because of a low balance or existential deposit rules.",
+  LocalExecutionIncomplete: "The transfer failed on the source chain. The amount may not cover fees or would reap the account.",
+  BadVersion: "The destination does not understand the XCM version used. Reconnect and try again.",
+  InsufficientBalance: "Not enough free balance to cover the amount and the fees.",
+  FundsUnavailable: "Part of the balance is locked or reserved and cannot be transferred.",
+  BelowMinimum: "The resulting balance would be below the existential deposit.",
+  ExistentialDeposit: "The resulting balance would be below the existential deposit.",
+  KeepAlive: "The transfer would reap the account. Lower the amount to keep the existential deposit.",
+}
+
+// Errors thrown by the node before inclusion only carry a message
+const MESSAGE_HINTS: [RegExp, string][] = [
+  [/inability to pay some fees/i, "Not enough balance to pay the transaction fee."],
+  [/cancelled|rejected by user/i, "The signature request was rejected in the wallet."],
+  [/priority is too low/i, "Another transaction with the same nonce is pending. Wait for it or replace it."],
+]
+
+const withHint = (name: string, message: string, raw: string): DecodedError => ({
+  message,
+  hint: ERROR_HINTS[name],
+  raw,
+})
+
+// Variant name of a JSON-encoded enum, with polkadot.js's camelCase keys restored to PascalCase
+const variantName = (value: any): string | undefined => {
+  const name = typeof value === "string" ? value : value && typeof value === "object" ? Object.keys(value)[0] : undefined
+  return name ? name.charAt(0).toUpperCase() + name.slice(1) : undefined
+}
+
+export const decodeDispatchError = (api: ApiPromise, error: DispatchError): DecodedError => {
+  const raw = JSON.stringify(error.toJSON())
+
+  if (error.isModule) {
+    const { section, name, docs } = api.registry.findMetaError(error.asModule)
+    return withHint(name, `${section}.${name}${docs.length ? ` - ${docs.join(" ")}` : ""}`, raw)
+  }
+
+  // Token and Arithmetic errors nest the interesting variant one level down
+  const json: any = error.toJSON()
+  const outer = variantName(json)
+  const inner = outer && json && typeof json === "object" ? variantName(Object.values(json)[0]) : undefined
+  const name = inner ?? outer ?? error.type
+
+  return withHint(name, inner ? `${outer}.${inner}` : error.toString(), raw)
+}
+
+// Error from an XCM Outcome (pallet-xcm's Attempted event or a dry-run), undefined when it completed
+export const decodeXcmOutcome = (outcome: any): DecodedError | undefined => {
+  const [key, value] = Object.entries(outcome ?? {})[0] ?? []
+  if (!key || key.toLowerCase() === "complete") return undefined
+
+  // V3 reports Incomplete as [weight, error], V4+ as { used, error: { index, error } }
+  const error = Array.isArray(value) ? value[value.length - 1] : (value as any)?.error ?? value
+  const name = variantName(error?.error ?? error) ?? "Unknown"
+  const index = error?.index !== undefined ? ` at instruction ${error.index}` : ""
+
+  return withHint(name, `XCM ${key.toLowerCase()}: ${name}${index}`, JSON.stringify(value))
+}
+
+export const describeThrownError = (error: unknown, fallback: string): DecodedError => {
+  const message = error instanceof Error ? error.message : fallback
+  const hint = MESSAGE_HINTS.find(([pattern]) => pattern.test(message))?.[1]
+  return { message, hint, raw: error instanceof Error ? error.message : String(error) }
+}
@@ -0,0 +1,71 @@
+import type { ApiPromise, SubmittableResult } from "@polkadot/api"
+import type { ExtrinsicStatus } from "@polkadot/types/interfaces"
+
+import { decodeDispatchError, decodeXcmOutcome, type DecodedError } from "@/lib/errors"
+
+// One step of a submitted extrinsic's lifecycle, reduced to what the UI has to react to
+export type ExtrinsicUpdate =
+  | { type: "pending"; status: string }
+  | { type: "inBlock"; blockHash: string }
+  | { type: "finalized"; blockHash: string }
+  // The block that included the extrinsic was reorged out, it goes back to the pool
+  | { type: "retracted"; blockHash: string }
+  // Included, but the call itself failed; only final once `finalized`, a reorg may still include it again
+  | { type: "failed"; blockHash: string; finalized: boolean; error: DecodedError }
+  // Dropped, Invalid, Usurped or FinalityTimeout: no further updates will follow
+  | { type: "terminal"; error: DecodedError }
+
+const describeTerminalStatus = (status: ExtrinsicStatus): string => {
+  if (status.isDropped) {
+    return "Transaction was dropped from the pool without being included. No funds were moved."
+  }
+  if (status.isInvalid) {
+    return "Transaction became invalid before inclusion, usually because the nonce was used or the balance changed. No funds were moved."
+  }
+  if (status.isUsurped) {
+    return `Transaction was replaced by another one with the same nonce (${status.asUsurped.toHex()}). This transfer was not executed.`
+  }
+  if (status.isFinalityTimeout) {
+    return `Block ${status.asFinalityTimeout.toHex()} was not finalized in time. Check the explorer before retrying.`
+  }
+  return `Transaction ended with status ${status.type}`
+}
+
+// Events of the including block decide success. They are read again at finality because a
+// reorg may have put the extrinsic into a different block than the first InBlock one.
+export const interpretExtrinsicResult = (api: ApiPromise, result: SubmittableResult): ExtrinsicUpdate => {
+  const { status } = result
+
+  if (status.isInBlock || status.isFinalized) {
+    const blockHash = (status.isInBlock ? status.asInBlock : status.asFinalized).toHex()
+    const failed = result.events.find(({ event }) => api.events.system.ExtrinsicFailed.is(event))
+
+    if (failed) {
+      const [dispatchError] = failed.event.data as any
+      return { type: "failed", blockHash, finalized: status.isFinalized, error: decodeDispatchError(api, dispatchError) }
+    }
+
+    if (!result.events.some(({ event }) => api.events.system.ExtrinsicSuccess.is(event))) {
+      const error = "No ExtrinsicSuccess event found, check the explorer"
+      return { type: "failed", blockHash, finalized: status.isFinalized, error: { message: error, raw: error } }
+    }
+
+    // Older pallet-xcm versions let the extrinsic succeed and only report local failure here
+    const attempted = result.events.find(({ event }) =>
+      (event.section === "xcmPallet" || event.section === "polkadotXcm") && event.method === "Attempted"
+    )
+    const xcmError = attempted && decodeXcmOutcome((attempted.event.data as any).outcome?.toJSON?.() ?? attempted.event.data[0].toJSON())
+    if (xcmError) return { type: "failed", blockHash, finalized: status.isFinalized, error: xcmError }
+
+    return { type: status.isInBlock ? "inBlock" : "finalized", blockHash }
+  }
+
+  if (status.isRetracted) return { type: "retracted", blockHash: status.asRetracted.toHex() }
+
+  if (result.isError) {
+    const error = describeTerminalStatus(status)
+    return { type: "terminal", error: { message: error, raw: JSON.stringify(status.toJSON()) } }
+  }
+
+  return { type: "pending", status: status.type }
+}
@@ -0,0 +1,85 @@
+import type { ApiPromise } from "@polkadot/api"
+import type { SubmittableExtrinsic } from "@polkadot/api/types"
+import BigNumber from "bignumber.js"
+
+import { queryIncomingTransferWeight, toVersionedAssetId, type IncomingTransfer, type XcmLocation } from "@/lib/xcm"
+
+// Fees are charged in the source chain's native token, amounts in its smallest unit
+export interface FeeEstimate {
+  sourceFee: BigNumber
+  deliveryFee: BigNumber
+  total: BigNumber
+  // False when the runtime has no XcmPaymentApi or we had no forwarded XCM to price
+  deliveryFeeAvailable: boolean
+}
+
+// Sum the fungible amounts of a VersionedAssets value returned by a runtime API
+const sumFungible = (versionedAssets: any): BigNumber => {
+  const [assets] = Object.values(versionedAssets ?? {}) as any[]
+
+  return (assets ?? []).reduce((sum: BigNumber, asset: any) => {
+    const fungible = asset?.fun?.fungible ?? asset?.fun?.Fungible
+    return fungible !== undefined ? sum.plus(new BigNumber(fungible.toString())) : sum
+  }, new BigNumber(0))
+}
+
+// Source extrinsic fee from paymentInfo plus the XCM delivery fee for every forwarded message
+export const estimateTransferFees = async (
+  api: ApiPromise,
+  tx: SubmittableExtrinsic<"promise">,
+  address: string,
+  forwardedXcms: any[]
+): Promise<FeeEstimate> => {
+  const { partialFee } = await tx.paymentInfo(address)
+  const sourceFee = new BigNumber(partialFee.toString())
+
+  let deliveryFee = new BigNumber(0)
+  let deliveryFeeAvailable = !!api.call.xcmPaymentApi?.queryDeliveryFees && forwardedXcms.length > 0
+
+  if (deliveryFeeAvailable) {
+    for (const [destination, messages] of forwardedXcms) {
+      for (const message of messages) {
+        const result: any = await api.call.xcmPaymentApi.queryDeliveryFees(destination, message)
+
+        if (result.isErr) {
+          console.warn("Delivery fee query failed:", result.asErr.toString())
+          deliveryFeeAvailable = false
+          continue
+        }
+
+        deliveryFee = deliveryFee.plus(sumFungible(result.asOk.toJSON()))
+      }
+    }
+  }
+
+  return {
+    sourceFee,
+    deliveryFee,
+    total: sourceFee.plus(deliveryFee),
+    deliveryFeeAvailable,
+  }
+}
+
+// Fee the destination charges in DOT for executing the incoming transfer (BuyExecution),
+// or undefined when its runtime does not expose XcmPaymentApi
+export const estimateDestinationFee = async (
+  api: ApiPromise,
+  version: number,
+  dotLocation: XcmLocation,
+  amount: string,
+  incoming: IncomingTransfer
+): Promise<BigNumber | undefined> => {
+  if (!api.call.xcmPaymentApi?.queryWeightToAssetFee) return undefined
+
+  const weight = await queryIncomingTransferWeight(api, version, dotLocation, amount, incoming)
+  if (!weight) return undefined
+
+  const fee: any = await api.call.xcmPaymentApi.queryWeightToAssetFee(weight, toVersionedAssetId(version, dotLocation))
+
+  if (fee.isErr) {
+    console.warn("Destination fee query failed:", fee.asErr.toString())
+    return undefined
+  }
+
+  return new BigNumber(fee.asOk.toString())
+}
@@ -0,0 +1,102 @@
+import { blake2AsU8a, decodeAddress } from "@polkadot/util-crypto"
+
+// The 19-circle identicon polkadot.js apps and the extension show, so accounts look the same here
+
+export interface IdenticonCircle {
+  cx: number
+  cy: number
+  r: number
+  fill: string
+}
+
+const SIZE = 64
+const CENTER = SIZE / 2
+const RADIUS = (SIZE / 64) * 5
+
+const ZERO = blake2AsU8a(new Uint8Array(32))
+
+const SCHEMES = [
+  { colors: [0, 28, 0, 0, 28, 0, 0, 28, 0, 0, 28, 0, 0, 28, 0, 0, 28, 0, 1], freq: 1 },
+  { colors: [0, 1, 3, 2, 4, 3, 0, 1, 3, 2, 4, 3, 0, 1, 3, 2, 4, 3, 5], freq: 20 },
+  { colors: [1, 2, 3, 1, 2, 4, 5, 5, 4, 1, 2, 3, 1, 2, 4, 5, 5, 4, 0], freq: 16 },
+  { colors: [0, 1, 2, 0, 1, 2, 0, 1, 2, 0, 1, 2, 0, 1, 2, 0, 1, 2, 3], freq: 32 },
+  { colors: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18], freq: 32 },
+  { colors: [0, 1, 2, 3, 4, 5, 3, 4, 2, 0, 1, 6, 7, 8, 9, 7, 8, 6, 10], freq: 128 },
+  { colors: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 8, 6, 7, 5, 3, 4, 2, 11], freq: 128 },
+]
+
+const TOTAL_FREQ = SCHEMES.reduce((sum, { freq }) => sum + freq, 0)
+
+// Six outer, six middle and six inner circles around a centre one
+const getCirclePositions = (): [number, number][] => {
+  const r = (CENTER / 4) * 3
+  const rroot3o2 = (r * Math.sqrt(3)) / 2
+  const ro2 = r / 2
+  const rroot3o4 = (r * Math.sqrt(3)) / 4
+  const ro4 = r / 4
+  const r3o4 = (r * 3) / 4
+
+  return [
+    [CENTER, CENTER - r],
+    [CENTER, CENTER - ro2],
+    [CENTER - rroot3o4, CENTER - r3o4],
+    [CENTER - rroot3o2, CENTER - ro2],
+    [CENTER - rroot3o4, CENTER - ro4],
+    [CENTER - rroot3o2, CENTER],
+    [CENTER - rroot3o2, CENTER + ro2],
+    [CENTER - rroot3o4, CENTER + ro4],
+    [CENTER - rroot3o4, CENTER + r3o4],
+    [CENTER, CENTER + r],
+    [CENTER, CENTER + ro2],
+    [CENTER + rroot3o4, CENTER + r3o4],
+    [CENTER + rroot3o2, CENTER + ro2],
+    [CENTER + rroot3o4, CENTER + ro4],
+    [CENTER + rroot3o2, CENTER],
+    [CENTER + rroot3o2, CENTER - ro2],
+    [CENTER + rroot3o4, CENTER - ro4],
+    [CENTER + rroot3o4, CENTER - r3o4],
+    [CENTER, CENTER],
+  ]
+}
+
+const getColors = (address: string): string[] => {
+  const id = blake2AsU8a(decodeAddress(address)).map((x, i) => (x + 256 - ZERO[i]) % 256)
+
+  const d = Math.floor((id[30] + id[31] * 256) % TOTAL_FREQ)
+  const rotation = (id[28] % 6) * 3
+  const saturation = (Math.floor((id[29] * 70) / 256 + 26) % 80) + 30
+
+  let cumulative = 0
+  const scheme = SCHEMES.find(({ freq }) => {
+    cumulative += freq
+    return d < cumulative
+  })!
+
+  const palette = Array.from(id).map((x, i) => {
+    const b = (x + (i % 28) * 58) % 256
+    if (b === 0) return "#444"
+    if (b === 255) return "transparent"
+    const hue = Math.floor(((b % 64) * 360) / 64)
+    const lightness = [53, 15, 35, 75][Math.floor(b / 64)]
+    return `hsl(${hue}, ${saturation}%, ${lightness}%)`
+  })
+
+  return scheme.colors.map((_, i) => palette[scheme.colors[i < 18 ? (i + rotation) % 18 : 18]])
+}
+
+// Circles on a 64×64 canvas; invalid addresses get a grey placeholder
+export const getIdenticonCircles = (address: string): IdenticonCircle[] => {
+  const positions = getCirclePositions()
+
+  let colors: string[]
+  try {
+    colors = getColors(address)
+  } catch {
+    colors = positions.map(() => "#ddd")
+  }
+
+  return [
+    { cx: CENTER, cy: CENTER, r: CENTER, fill: "#eee" },
+    ...positions.map(([cx, cy], index) => ({ cx, cy, r: RADIUS, fill: colors[index] })),
+  ]
+}
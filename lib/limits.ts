@@ -0,0 +1,146 @@
+import BigNumber from "bignumber.js"
+
+import { toPlanck } from "@/lib/amount"
+import { DOT_DECIMALS, NETWORKS, ROUTES, type TransferDirection } from "@/lib/networks"
+
+// Deployments can override the built-in limits by placing this file next to the static export
+export const LIMITS_CONFIG_URL = "/transfer-limits.json"
+
+// DOT amounts, as strings so they survive JSON without floating point
+export interface TransferLimitOverride {
+  min?: string
+  max?: string
+}
+
+// More specific entries win: a route over its source network, a network over the default
+export interface LimitsConfig {
+  default?: TransferLimitOverride
+  // Keyed by source network, as in NETWORKS
+  networks?: Partial<Record<string, TransferLimitOverride>>
+  routes?: Partial<Record<TransferDirection, TransferLimitOverride>>
+}
+
+export interface ResolvedLimit {
+  // DOT
+  value: BigNumber
+  planck: BigNumber
+  // Where the limit came from, for display
+  source: string
+}
+
+export interface TransferLimits {
+  min: ResolvedLimit
+  max: ResolvedLimit
+}
+
+export const BUILT_IN_LIMITS: LimitsConfig = {
+  default: { min: "0.001", max: "1000" },
+}
+
+type Bound = keyof TransferLimitOverride
+
+const isValidAmount = (value: unknown) =>
+  (typeof value === "string" || typeof value === "number") &&
+  new BigNumber(value).isFinite() &&
+  new BigNumber(value).gte(0) &&
+  (new BigNumber(value).decimalPlaces() ?? 0) <= DOT_DECIMALS
+
+// Keep only well-formed bounds from an untrusted override
+const sanitizeOverride = (value: unknown, path: string): TransferLimitOverride | undefined => {
+  if (!value || typeof value !== "object") return undefined
+
+  const override: TransferLimitOverride = {}
+  for (const bound of ["min", "max"] as Bound[]) {
+    const amount = (value as Record<string, unknown>)[bound]
+    if (amount === undefined) continue
+
+    if (isValidAmount(amount)) {
+      override[bound] = new BigNumber(amount as BigNumber.Value).toFixed()
+    } else {
+      console.warn(`Ignoring invalid transfer limit ${path}.${bound}:`, amount)
+    }
+  }
+  return override
+}
+
+const sanitizeGroup = <K extends string>(value: unknown, keys: K[], path: string) => {
+  if (!value || typeof value !== "object") return undefined
+
+  const group: Partial<Record<K, TransferLimitOverride>> = {}
+  for (const [key, override] of Object.entries(value)) {
+    if (!keys.includes(key as K)) {
+      console.warn(`Ignoring transfer limits for unknown ${path} "${key}"`)
+      continue
+    }
+    group[key as K] = sanitizeOverride(override, `${path}.${key}`)
+  }
+  return group
+}
+
+export const parseLimitsConfig = (json: unknown): LimitsConfig => {
+  if (!json || typeof json !== "object") throw new Error("Transfer limits config must be a JSON object")
+
+  const { default: defaults, networks, routes } = json as Record<string, unknown>
+  return {
+    default: sanitizeOverride(defaults, "default"),
+    networks: sanitizeGroup(networks, Object.keys(NETWORKS), "networks"),
+    routes: sanitizeGroup(routes, Object.keys(ROUTES) as TransferDirection[], "routes"),
+  }
+}
+
+// Fetch the deployment's overrides; null when there are none
+export const loadLimitsConfig = async (url = LIMITS_CONFIG_URL): Promise<LimitsConfig | null> => {
+  const response = await fetch(url, { cache: "no-store" })
+  if (response.status === 404) return null
+  if (!response.ok) throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`)
+
+  return parseLimitsConfig(await response.json())
+}
+
+// One place a limit can be set, most specific first
+interface LimitLevel {
+  override?: TransferLimitOverride
+  source: string
+}
+
+const getLimitLevels = (direction: TransferDirection, layers: { config: LimitsConfig; origin: string }[]): LimitLevel[] => {
+  const route = ROUTES[direction]
+  const routeName = `${NETWORKS[route.source].name} → ${NETWORKS[route.destination].name}`
+
+  return layers.flatMap(({ config, origin }) => [
+    { override: config.routes?.[direction], source: `${origin} limit for ${routeName}` },
+    { override: config.networks?.[route.source], source: `${origin} limit for ${NETWORKS[route.source].name}` },
+    { override: config.default, source: `${origin} default` },
+  ])
+}
+
+const resolveBound = (bound: Bound, direction: TransferDirection, levels: LimitLevel[]): ResolvedLimit & { level: number } => {
+  const level = levels.findIndex(({ override }) => override?.[bound] !== undefined)
+  if (level === -1) {
+    const route = ROUTES[direction]
+    throw new Error(`No ${bound} transfer limit configured for ${NETWORKS[route.source].name} → ${NETWORKS[route.destination].name}`)
+  }
+
+  const value = new BigNumber(levels[level].override![bound]!)
+  return { value, planck: toPlanck(value, DOT_DECIMALS), source: levels[level].source, level }
+}
+
+// A minimum above the maximum is a misconfiguration: the more specific of the two entries is ignored
+const resolveLevels = (direction: TransferDirection, levels: LimitLevel[]): TransferLimits => {
+  const { level: minLevel, ...min } = resolveBound("min", direction, levels)
+  const { level: maxLevel, ...max } = resolveBound("max", direction, levels)
+  if (min.value.lte(max.value)) return { min, max }
+
+  const ignored = Math.min(minLevel, maxLevel)
+  console.warn(
+    `Ignoring ${levels[ignored].source}: minimum ${min.value.toFixed()} DOT is above maximum ${max.value.toFixed()} DOT`
+  )
+  return resolveLevels(direction, levels.filter((_, index) => index !== ignored))
+}
+
+// Limits for one route. Any deployment entry takes precedence over every built-in one.
+export const resolveTransferLimits = (direction: TransferDirection, overrides: LimitsConfig | null): TransferLimits =>
+  resolveLevels(direction, getLimitLevels(direction, [
+    ...(overrides ? [{ config: overrides, origin: "Deployment" }] : []),
+    { config: BUILT_IN_LIMITS, origin: "Built-in" },
+  ]))
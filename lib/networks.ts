@@ -0,0 +1,102 @@
+import BigNumber from "bignumber.js"
+
+import type { XcmLocation } from "@/lib/xcm"
+
+// Correct decimals constants as per blockchain specs
+export const DOT_DECIMALS = 10  // DOT always has 10 decimals on all chains
+export const UNQ_DECIMALS = 18  // UNQ has 18 decimals (Unique native token)
+
+// DOT foreign asset collection ID on Unique Network
+export const DOT_FOREIGN_ASSET_COLLECTION_ID = 437
+
+// Unique registers collection 437 under the relay chain location and treats the relay as DOT's reserve
+export const UNIQUE_DOT_LOCATION: XcmLocation = { parents: 1, interior: [] }
+export const UNIQUE_DOT_RESERVE: XcmLocation = { parents: 1, interior: [] }
+
+export interface NetworkConfig {
+  name: string
+  wsUrl: string
+  chainId?: number
+  decimals: number
+  symbol: string
+  ss58Format: number
+  // Whether H160 (AccountKey20) accounts can hold DOT here
+  supportsEvm: boolean
+  // DOT as this chain refers to it in XCM
+  dotLocation: XcmLocation
+}
+
+export const NETWORKS: Record<string, NetworkConfig> = {
+  polkadot: {
+    name: "Polkadot Relay",
+    wsUrl: "wss://rpc.polkadot.io",
+    chainId: 0,
+    decimals: DOT_DECIMALS,
+    symbol: "DOT",
+    ss58Format: 0,
+    supportsEvm: false,
+    dotLocation: { parents: 0, interior: [] },
+  },
+  assetHub: {
+    name: "Asset Hub",
+    wsUrl: "wss://polkadot-asset-hub-rpc.polkadot.io",
+    chainId: 1000,
+    decimals: DOT_DECIMALS,
+    symbol: "DOT",
+    ss58Format: 0,
+    supportsEvm: false,
+    dotLocation: { parents: 1, interior: [] },
+  },
+  unique: {
+    name: "Unique Network",
+    wsUrl: "wss://ws.unique.network",
+    chainId: 2037,
+    decimals: UNQ_DECIMALS,
+    symbol: "UNQ",
+    ss58Format: 7391,
+    supportsEvm: true,
+    dotLocation: UNIQUE_DOT_LOCATION,
+  },
+}
+
+// fromPolkadot / fromAssetHub deliver DOT to Unique, fromUnique returns it to the relay chain
+// and fromUniqueToAssetHub sends it on to Asset Hub through the relay reserve
+export type TransferDirection = "fromPolkadot" | "fromAssetHub" | "fromUnique" | "fromUniqueToAssetHub"
+
+export interface RouteConfig {
+  source: string
+  destination: string
+  description: string
+  explorerUrl: string
+}
+
+export const ROUTES: Record<TransferDirection, RouteConfig> = {
+  fromPolkadot: {
+    source: "polkadot",
+    destination: "unique",
+    description: "Transfer DOT from Polkadot Relay Chain to Unique Network",
+    explorerUrl: "https://polkadot.subscan.io",
+  },
+  fromAssetHub: {
+    source: "assetHub",
+    destination: "unique",
+    description: "Transfer DOT from Asset Hub to Unique Network",
+    explorerUrl: "https://assethub-polkadot.subscan.io",
+  },
+  fromUnique: {
+    source: "unique",
+    destination: "polkadot",
+    description: "Withdraw DOT from Unique Network back to Polkadot Relay Chain",
+    explorerUrl: "https://unique.subscan.io",
+  },
+  fromUniqueToAssetHub: {
+    source: "unique",
+    destination: "assetHub",
+    description: "Send DOT from Unique Network to Asset Hub via the Polkadot Relay reserve",
+    explorerUrl: "https://unique.subscan.io",
+  },
+}
+
+// Format a planck amount for display without losing precision
+export const formatUnits = (value: BigNumber, decimals: number) =>
+  value.dividedBy(new BigNumber(10).pow(decimals)).toFixed()
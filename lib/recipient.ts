@@ -0,0 +1,41 @@
+import { isHex, u8aToHex } from "@polkadot/util"
+import { decodeAddress, encodeAddress, ethereumEncode, isEthereumAddress } from "@polkadot/util-crypto"
+
+import { accountId32, accountKey20, type XcmJunction } from "@/lib/xcm"
+
+export interface Recipient {
+  // Address as the destination chain displays it: SS58 with its prefix, or EIP-55 for H160
+  address: string
+  // Lowercase hex of the 32-byte account ID, or of the 20-byte key for EVM recipients
+  accountId: string
+  isEvm: boolean
+  junction: XcmJunction
+}
+
+// Validate a recipient typed by the user. decodeAddress rejects SS58 input with a bad checksum,
+// the public key is then re-encoded with the destination's prefix. 0x H160 input becomes AccountKey20.
+export const parseRecipient = (input: string, ss58Format: number, allowEvm: boolean): Recipient => {
+  const value = input.trim()
+  if (!value) throw new Error("Enter a recipient address")
+
+  if (isHex(value) && value.length === 42) {
+    // Mixed-case input carries an EIP-55 checksum, isEthereumAddress verifies it
+    if (!isEthereumAddress(value)) throw new Error("EVM address checksum does not match")
+    if (!allowEvm) throw new Error("EVM addresses can only receive DOT on Unique Network")
+
+    const key = value.toLowerCase()
+    return { address: ethereumEncode(key), accountId: key, isEvm: true, junction: accountKey20(key) }
+  }
+
+  let publicKey: Uint8Array
+  try {
+    publicKey = decodeAddress(value)
+  } catch (error) {
+    throw new Error(`Invalid address: ${error instanceof Error ? error.message : "could not decode"}`)
+  }
+
+  if (publicKey.length !== 32) throw new Error("Address must be a 32-byte account or a 20-byte EVM address")
+
+  const accountId = u8aToHex(publicKey)
+  return { address: encodeAddress(publicKey, ss58Format), accountId, isEvm: false, junction: accountId32(accountId) }
+}
@@ -0,0 +1,47 @@
+import { ROUTES, type TransferDirection } from "@/lib/networks"
+
+// What this device remembers between reloads
+export interface StoredSession {
+  // Source of the wallet connected last, offered first and reconnected on load
+  wallet?: string
+  // Account selected in that wallet; cleared on disconnect, so the wallet is not reconnected
+  account?: string
+  direction?: TransferDirection
+  // Amount as typed and not sent yet
+  amount?: string
+}
+
+const SESSION_KEY = "dot-exchange:session"
+
+// Drop anything that is not what this version would have written
+const parseSession = (value: any): StoredSession => {
+  if (!value || typeof value !== "object") return {}
+
+  const session: StoredSession = {}
+  if (typeof value.wallet === "string") session.wallet = value.wallet
+  if (typeof value.account === "string") session.account = value.account
+  if (typeof value.direction === "string" && value.direction in ROUTES) session.direction = value.direction
+  if (typeof value.amount === "string") session.amount = value.amount
+  return session
+}
+
+// A session is only written once a wallet was connected, and removed again by "forget this device"
+export const hasStoredSession = () => localStorage.getItem(SESSION_KEY) !== null
+
+export const loadSession = (): StoredSession => {
+  try {
+    return parseSession(JSON.parse(localStorage.getItem(SESSION_KEY) ?? "null"))
+  } catch (error) {
+    console.warn("Ignoring unreadable stored session:", error)
+    return {}
+  }
+}
+
+// Merge into the stored session; undefined fields are removed
+export const saveSession = (changes: Partial<StoredSession>) => {
+  localStorage.setItem(SESSION_KEY, JSON.stringify({ ...loadSession(), ...changes }))
+}
+
+export const clearSession = () => {
+  localStorage.removeItem(SESSION_KEY)
+}
@@ -0,0 +1,314 @@
+import type { ApiPromise } from "@polkadot/api"
+import type { SubmittableExtrinsic } from "@polkadot/api/types"
+import type { EventRecord } from "@polkadot/types/interfaces"
+import { formatBalance, u8aToHex } from "@polkadot/util"
+import { decodeAddress } from "@polkadot/util-crypto"
+import BigNumber from "bignumber.js"
+
+import {
+  DOT_DECIMALS,
+  DOT_FOREIGN_ASSET_COLLECTION_ID,
+  NETWORKS,
+  ROUTES,
+  UNIQUE_DOT_LOCATION,
+  UNIQUE_DOT_RESERVE,
+  type TransferDirection,
+} from "@/lib/networks"
+import type { Recipient } from "@/lib/recipient"
+import {
+  describeWeightLimit,
+  getXcmPalletName,
+  negotiateXcmVersion,
+  parachain,
+  resolveWeightLimit,
+  toVersionedAssetId,
+  toVersionedAssets,
+  toVersionedDepositXcm,
+  toVersionedLocation,
+  type XcmHop,
+  type XcmLocation,
+  type XcmVersionInfo,
+  type XcmWeightLimit,
+} from "@/lib/xcm"
+
+// Connected chains, keyed like NETWORKS
+export type XcmApis = Record<"polkadot" | "assetHub" | "unique", ApiPromise | null>
+
+export const getNetworkApi = (apis: XcmApis, key: string): ApiPromise | null =>
+  apis[key as keyof XcmApis] ?? null
+
+export interface BuiltTransfer {
+  api: ApiPromise
+  tx: SubmittableExtrinsic<"promise">
+  xcmVersion: number
+  weightLimit: XcmWeightLimit
+}
+
+// DOT between Asset Hub and Unique cannot move directly: Unique only accepts it from
+// its reserve (the relay chain), so both directions go through the relay as a remote reserve
+export const supportsRelayReserveTransfer = (api: ApiPromise | null) => {
+  if (!api) return false
+  try {
+    return !!api.tx[getXcmPalletName(api)].transferAssetsUsingTypeAndThen
+  } catch {
+    return false
+  }
+}
+
+const buildRelayReserveTransfer = (
+  api: ApiPromise,
+  { pallet, version }: XcmVersionInfo,
+  destParaId: number,
+  beneficiary: Recipient,
+  amount: BigNumber,
+  weightLimit: XcmWeightLimit
+) => {
+  const destination = toVersionedLocation(version, { parents: 1, interior: [parachain(destParaId)] })
+  const assets = toVersionedAssets(version, UNIQUE_DOT_LOCATION, amount.toString())
+  const reserve = { RemoteReserve: toVersionedLocation(version, UNIQUE_DOT_RESERVE) }
+  const customXcmOnDest = toVersionedDepositXcm(version, { parents: 0, interior: [beneficiary.junction] })
+
+  const tx = api.tx[pallet].transferAssetsUsingTypeAndThen(
+    destination,
+    assets,
+    reserve,
+    toVersionedAssetId(version, UNIQUE_DOT_LOCATION),
+    reserve,
+    customXcmOnDest,
+    weightLimit
+  )
+
+  return { tx, destination, reserve }
+}
+
+// Deposit event proving the DOT reached the beneficiary on the destination chain. `amount` is what was
+// sent: the credit is that minus the destination's execution fee, never more and never nothing.
+export const isCreditEvent = (destination: string, accountId: string, amount: BigNumber, { event }: EventRecord) => {
+  const isAmount = (credited: any) => {
+    const value = new BigNumber(credited?.toString() ?? 0)
+    return value.gt(0) && value.lte(amount)
+  }
+
+  const isBeneficiary = (who: any) => {
+    const ethereum = who?.ethereum ?? who?.Ethereum
+    if (typeof ethereum === "string") return ethereum.toLowerCase() === accountId
+
+    const address = who?.substrate ?? who?.Substrate ?? who
+    try {
+      return typeof address === "string" && u8aToHex(decodeAddress(address)) === accountId
+    } catch {
+      return false
+    }
+  }
+
+  if (destination === "unique") {
+    // Unique mints the foreign asset into collection 437 as a fungible item
+    if (event.section !== "common" || event.method !== "ItemCreated") return false
+    const [collectionId, , owner, credited] = event.data.toJSON() as any[]
+    return Number(collectionId) === DOT_FOREIGN_ASSET_COLLECTION_ID && isBeneficiary(owner) && isAmount(credited)
+  }
+
+  if (event.section !== "balances" || (event.method !== "Minted" && event.method !== "Deposit")) return false
+  const [who, credited] = event.data.toJSON() as any[]
+  return isBeneficiary(who) && isAmount(credited)
+}
+
+// Every chain the transfer executes on after leaving the source, in order, with the message it receives.
+// The relay is the reserve: it withdraws DOT coming back, and forwards it on for Asset Hub ↔ Unique.
+export const getTransferHops = (apis: XcmApis, direction: TransferDirection, recipient: Recipient): XcmHop[] => {
+  const beneficiary: XcmLocation = { parents: 0, interior: [recipient.junction] }
+  const destinationKey = ROUTES[direction].destination
+  const destination: XcmHop = {
+    api: getNetworkApi(apis, destinationKey),
+    location: NETWORKS[destinationKey].dotLocation,
+    incoming: { type: destinationKey === "polkadot" ? "reserveWithdraw" : "reserveDeposit", beneficiary },
+  }
+
+  if (direction !== "fromAssetHub" && direction !== "fromUniqueToAssetHub") return [destination]
+
+  const relay: XcmHop = {
+    api: apis.polkadot,
+    location: NETWORKS.polkadot.dotLocation,
+    incoming: {
+      type: "reserveForward",
+      destination: { parents: 0, interior: [parachain(NETWORKS[destinationKey].chainId!)] },
+      forwardedLocation: NETWORKS[destinationKey].dotLocation,
+      beneficiary,
+    },
+  }
+  return [relay, destination]
+}
+
+// Build the XCM extrinsic for a route without signing it, so it can be dry-run first
+export const buildXcmTransfer = async (
+  apis: XcmApis,
+  direction: TransferDirection,
+  amount: BigNumber,
+  recipient: Recipient
+): Promise<BuiltTransfer> => {
+  const { polkadot: polkadotApi, assetHub: assetHubApi, unique: uniqueApi } = apis
+  const beneficiaryLocation: XcmLocation = { parents: 0, interior: [recipient.junction] }
+  const destinationKey = ROUTES[direction].destination
+
+  // Ask every chain on the way how much weight its part needs instead of guessing
+  const getWeightLimit = async (source: ApiPromise, { pallet, version }: XcmVersionInfo) => {
+    const weightLimit = await resolveWeightLimit(
+      source,
+      pallet,
+      getTransferHops(apis, direction, recipient),
+      version,
+      amount.toString()
+    )
+    console.log(`Weight limit for ${NETWORKS[destinationKey].name}:`, describeWeightLimit(weightLimit))
+    return weightLimit
+  }
+
+  if (direction === "fromPolkadot") {
+    // Polkadot to Unique transfer
+    if (!polkadotApi) throw new Error("Polkadot API not connected")
+
+    // Destination: Unique Network parachain (from relay chain perspective)
+    const destinationLocation: XcmLocation = { parents: 0, interior: [parachain(NETWORKS.unique.chainId!)] }
+    const { pallet, version } = await negotiateXcmVersion(polkadotApi, destinationLocation, [uniqueApi])
+    const weightLimit = await getWeightLimit(polkadotApi, { pallet, version })
+
+    const destination = toVersionedLocation(version, destinationLocation)
+
+    // Beneficiary: account on Unique Network
+    const beneficiary = toVersionedLocation(version, beneficiaryLocation)
+
+    // Assets: DOT from relay chain (parents: 0, interior: 'Here')
+    const assets = toVersionedAssets(version, { parents: 0, interior: [] }, amount.toString())
+
+    console.log("XCM transfer configuration (Polkadot -> Unique):", {
+      pallet,
+      xcmVersion: version,
+      destination,
+      beneficiary: recipient.address,
+      amount: amount.toString(),
+      amountFormatted: formatBalance(amount.toString(), { decimals: DOT_DECIMALS, withSi: false })
+    })
+
+    const tx = polkadotApi.tx[pallet].limitedReserveTransferAssets(
+      destination,
+      beneficiary,
+      assets,
+      0,
+      weightLimit
+    )
+
+    return { api: polkadotApi, tx, xcmVersion: version, weightLimit }
+  }
+
+  if (direction === "fromUnique") {
+    // Unique to Polkadot transfer
+    if (!uniqueApi) throw new Error("Unique API not connected")
+
+    // Destination: Polkadot relay chain (from Unique parachain perspective)
+    const destinationLocation: XcmLocation = { parents: 1, interior: [] }
+    const { pallet, version } = await negotiateXcmVersion(uniqueApi, destinationLocation, [polkadotApi])
+    const weightLimit = await getWeightLimit(uniqueApi, { pallet, version })
+
+    const destination = toVersionedLocation(version, destinationLocation)
+
+    // Beneficiary: account on the relay chain
+    const beneficiary = toVersionedLocation(version, beneficiaryLocation)
+
+    // Assets: DOT as seen from Unique, the relay chain is its reserve
+    const assets = toVersionedAssets(version, UNIQUE_DOT_LOCATION, amount.toString())
+
+    console.log("XCM transfer configuration (Unique -> Polkadot):", {
+      pallet,
+      xcmVersion: version,
+      destination,
+      beneficiary: recipient.address,
+      amount: amount.toString(),
+      amountFormatted: formatBalance(amount.toString(), { decimals: DOT_DECIMALS, withSi: false })
+    })
+
+    // Sending DOT back to its reserve: pallet-xcm withdraws it locally and
+    // the relay chain releases it from Unique's sovereign account
+    const tx = uniqueApi.tx[pallet].limitedReserveTransferAssets(
+      destination,
+      beneficiary,
+      assets,
+      0,
+      weightLimit
+    )
+
+    return { api: uniqueApi, tx, xcmVersion: version, weightLimit }
+  }
+
+  if (direction === "fromUniqueToAssetHub") {
+    // Unique to Asset Hub transfer
+    if (!uniqueApi) throw new Error("Unique API not connected")
+
+    if (!supportsRelayReserveTransfer(uniqueApi)) {
+      throw new Error("Unique runtime does not support remote reserve transfers")
+    }
+
+    const xcmVersion = await negotiateXcmVersion(
+      uniqueApi,
+      { parents: 1, interior: [parachain(NETWORKS.assetHub.chainId!)] },
+      [polkadotApi, assetHubApi]
+    )
+    const weightLimit = await getWeightLimit(uniqueApi, xcmVersion)
+
+    // Beneficiary: the same account on Asset Hub
+    const { tx, destination, reserve } = buildRelayReserveTransfer(
+      uniqueApi,
+      xcmVersion,
+      NETWORKS.assetHub.chainId!,
+      recipient,
+      amount,
+      weightLimit
+    )
+
+    console.log("XCM transfer configuration (Unique -> Asset Hub):", {
+      xcmVersion: xcmVersion.version,
+      destination,
+      reserve,
+      beneficiary: recipient.address,
+      amount: amount.toString(),
+      amountFormatted: formatBalance(amount.toString(), { decimals: DOT_DECIMALS, withSi: false })
+    })
+
+    return { api: uniqueApi, tx, xcmVersion: xcmVersion.version, weightLimit }
+  }
+
+  // Asset Hub to Unique transfer
+  if (!assetHubApi) throw new Error("Asset Hub API not connected")
+
+  if (!supportsRelayReserveTransfer(assetHubApi)) {
+    throw new Error("Asset Hub runtime does not support remote reserve transfers")
+  }
+
+  // DOT is not teleportable to Unique and neither side is its reserve for Unique,
+  // so a plain reserve transfer or teleport is rejected - route it via the relay
+  const xcmVersion = await negotiateXcmVersion(
+    assetHubApi,
+    { parents: 1, interior: [parachain(NETWORKS.unique.chainId!)] },
+    [polkadotApi, uniqueApi]
+  )
+  const weightLimit = await getWeightLimit(assetHubApi, xcmVersion)
+
+  const { tx, destination, reserve } = buildRelayReserveTransfer(
+    assetHubApi,
+    xcmVersion,
+    NETWORKS.unique.chainId!,
+    recipient,
+    amount,
+    weightLimit
+  )
+
+  console.log("XCM transfer configuration (Asset Hub -> Unique):", {
+    xcmVersion: xcmVersion.version,
+    destination,
+    reserve,
+    beneficiary: recipient.address,
+    amount: amount.toString(),
+    amountFormatted: formatBalance(amount.toString(), { decimals: DOT_DECIMALS, withSi: false })
+  })
+
+  return { api: assetHubApi, tx, xcmVersion: xcmVersion.version, weightLimit }
+}
@@ -0,0 +1,36 @@
+import type { ApiPromise } from "@polkadot/api"
+import { evmToAddress } from "@polkadot/util-crypto"
+import BigNumber from "bignumber.js"
+
+import { NETWORKS } from "@/lib/networks"
+
+// Substrate account Unique maps an H160 address onto (blake2 of "evm:" + address), it holds the UNQ
+// the EVM account spends. Foreign assets stay owned by the H160 address itself.
+export const getEvmMirrorAddress = (address: string) => evmToAddress(address, NETWORKS.unique.ss58Format)
+
+export interface ForeignAssetInfo {
+  minBalance: BigNumber
+  // Whether holding the asset alone keeps an account alive, undefined when the runtime does not say
+  isSufficient?: boolean
+}
+
+// Unique keeps foreign assets as fungible collections, which have no existential deposit of
+// their own. Runtimes that still carry foreign-asset metadata record a minimal balance there.
+export const queryForeignAssetInfo = async (api: ApiPromise, symbol: string): Promise<ForeignAssetInfo> => {
+  const assetMetadatas = api.query.foreignAssets?.assetMetadatas
+  if (!assetMetadatas) return { minBalance: new BigNumber(0) }
+
+  const entries = await assetMetadatas.entries()
+
+  for (const [, value] of entries) {
+    const metadata: any = (value as any).isSome ? (value as any).unwrap() : value
+    if (metadata?.symbol?.toHuman?.() === symbol) {
+      return {
+        minBalance: new BigNumber(metadata.minimalBalance.toString()),
+        isSufficient: metadata.isSufficient?.isTrue,
+      }
+    }
+  }
+
+  return { minBalance: new BigNumber(0) }
+}
@@ -0,0 +1,109 @@
+import type {
+  InjectedAccount,
+  InjectedAccountWithMeta,
+  InjectedExtension,
+  InjectedWindow,
+} from "@polkadot/extension-inject/types"
+import { decodeAddress, ethereumEncode, isEthereumAddress } from "@polkadot/util-crypto"
+
+// Name the dapp asks each wallet to authorize
+export const DAPP_NAME = "DOT Exchange"
+
+export interface WalletInfo {
+  // Key in window.injectedWeb3, also InjectedAccountWithMeta.meta.source
+  source: string
+  name: string
+}
+
+// Wallets we know by name; any other injector is listed under its own key
+const KNOWN_WALLETS: Record<string, string> = {
+  "polkadot-js": "Polkadot{.js}",
+  talisman: "Talisman",
+  "subwallet-js": "SubWallet",
+}
+
+// Nova's in-app browser injects itself under the polkadot-js key
+const isNovaWallet = () => !!(window as any).walletExtension?.isNovaWallet
+
+const getInjectedWeb3 = () =>
+  typeof window === "undefined" ? {} : ((window as unknown as InjectedWindow).injectedWeb3 ?? {})
+
+// Wallets that injected themselves into the page, in a stable order
+export const getInstalledWallets = (): WalletInfo[] =>
+  Object.keys(getInjectedWeb3())
+    .sort()
+    .map((source) => ({
+      source,
+      name: source === "polkadot-js" && isNovaWallet() ? "Nova Wallet" : KNOWN_WALLETS[source] ?? source,
+    }))
+
+// Only the chosen wallet is enabled, unlike web3Enable which asks every installed one
+let connected: { wallet: WalletInfo; extension: InjectedExtension } | null = null
+
+export const connectWallet = async (wallet: WalletInfo): Promise<InjectedExtension> => {
+  const provider = getInjectedWeb3()[wallet.source]
+  if (!provider) throw new Error(`${wallet.name} is not installed`)
+
+  let extension: InjectedExtension
+  if (provider.enable) {
+    const injected = await provider.enable(DAPP_NAME)
+    extension = { ...injected, name: wallet.source, version: provider.version ?? "unknown" }
+  } else if (provider.connect) {
+    extension = await provider.connect(DAPP_NAME)
+  } else {
+    throw new Error(`${wallet.name} cannot be connected`)
+  }
+
+  connected = { wallet, extension }
+  return extension
+}
+
+export const disconnectWallet = () => {
+  connected = null
+}
+
+// Signer of the connected wallet, for an account it exposes
+export const getWalletSigner = (account: InjectedAccountWithMeta) => {
+  if (!connected || connected.wallet.source !== account.meta.source) {
+    throw new Error("The wallet holding this account is not connected")
+  }
+  return connected.extension.signer
+}
+
+// Talisman and SubWallet also inject ecdsa accounts with a 20-byte H160 address, which
+// relay and Asset Hub cannot decode as an account
+export const isEthereumAccount = (account: InjectedAccountWithMeta) =>
+  account.type === "ethereum" || isEthereumAddress(account.address)
+
+// meta.source of addresses watched without a wallet; no wallet signs for it
+export const WATCH_ONLY_SOURCE = "watch-only"
+
+export const isWatchOnlyAccount = (account: InjectedAccountWithMeta) => account.meta.source === WATCH_ONLY_SOURCE
+
+// Any SS58 or H160 address, shown like a wallet account so balances and history work unchanged
+export const toWatchOnlyAccount = (input: string): InjectedAccountWithMeta => {
+  const address = input.trim()
+  if (!address) throw new Error("Enter an address to watch")
+
+  if (address.startsWith("0x")) {
+    if (!isEthereumAddress(address)) throw new Error("Not a valid H160 address")
+    return { address: ethereumEncode(address), type: "ethereum", meta: { name: "Watch-only", source: WATCH_ONLY_SOURCE } }
+  }
+
+  let publicKey: Uint8Array
+  try {
+    publicKey = decodeAddress(address)
+  } catch (error) {
+    throw new Error(`Invalid address: ${error instanceof Error ? error.message : "could not decode"}`)
+  }
+  if (publicKey.length !== 32) throw new Error("Address must be a 32-byte account or a 20-byte EVM address")
+
+  return { address, meta: { name: "Watch-only", source: WATCH_ONLY_SOURCE } }
+}
+
+export const toAccountsWithMeta = (source: string, accounts: InjectedAccount[]): InjectedAccountWithMeta[] =>
+  accounts.map(({ address, genesisHash, name, type }) => ({
+    address,
+    type,
+    meta: { genesisHash, name, source },
+  }))
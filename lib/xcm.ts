@@ -0,0 +1,304 @@
+import type { ApiPromise } from "@polkadot/api"
+import type { Enum, Option, u32 } from "@polkadot/types"
+
+// Relay chains expose pallet-xcm as xcmPallet, parachains as polkadotXcm
+export type XcmPalletName = "xcmPallet" | "polkadotXcm"
+
+// Range of XCM versions our location and asset builders know how to encode
+const MIN_XCM_VERSION = 3
+const MAX_XCM_VERSION = 5
+
+// Headroom over the destination's own weight estimate, in percent
+const WEIGHT_LIMIT_MARGIN = 120
+
+export type XcmJunction =
+  | { Parachain: number }
+  | { AccountId32: { network: null; id: string } }
+  | { AccountKey20: { network: null; key: string } }
+
+// Version-independent location, junctions are converted to the right shape per version
+export interface XcmLocation {
+  parents: number
+  interior: XcmJunction[]
+}
+
+export interface XcmVersionInfo {
+  pallet: XcmPalletName
+  version: number
+}
+
+export interface XcmWeight {
+  refTime: string
+  proofSize: string
+}
+
+export type XcmWeightLimit = { Unlimited: null } | { Limited: XcmWeight }
+
+export const parachain = (paraId: number): XcmJunction => ({ Parachain: paraId })
+
+export const accountId32 = (id: string): XcmJunction => ({ AccountId32: { network: null, id } })
+
+export const accountKey20 = (key: string): XcmJunction => ({ AccountKey20: { network: null, key } })
+
+// Detect the pallet-xcm instance name from runtime metadata
+export const getXcmPalletName = (api: ApiPromise): XcmPalletName => {
+  const pallets = api.runtimeMetadata.asLatest.pallets.map(({ name }) => name.toString())
+
+  if (pallets.includes("XcmPallet")) return "xcmPallet"
+  if (pallets.includes("PolkadotXcm")) return "polkadotXcm"
+
+  throw new Error(`No XCM pallet found on ${api.runtimeChain.toString()}`)
+}
+
+// Versions of VersionedLocation the runtime can decode, read from the call argument type
+export const getSupportedXcmVersions = (api: ApiPromise, pallet = getXcmPalletName(api)): number[] => {
+  const destType = api.tx[pallet].limitedReserveTransferAssets.meta.args[0].type.toString()
+  const versioned = api.registry.createType(destType) as unknown as Enum
+
+  return versioned.defKeys
+    .map((key) => parseInt(key.replace(/^V/, ""), 10))
+    .filter((version) => !isNaN(version))
+    .sort((a, b) => a - b)
+}
+
+const getInterior = (version: number, junctions: XcmJunction[]) => {
+  if (junctions.length === 0) return "Here"
+
+  // V3 encodes a single junction directly, V4+ always uses arrays
+  if (version === 3 && junctions.length === 1) return { X1: junctions[0] }
+
+  return { [`X${junctions.length}`]: junctions }
+}
+
+const toLocation = (version: number, location: XcmLocation) => ({
+  parents: location.parents,
+  interior: getInterior(version, location.interior),
+})
+
+export const toVersionedLocation = (version: number, location: XcmLocation) => ({
+  [`V${version}`]: toLocation(version, location),
+})
+
+export const toVersionedAssetId = (version: number, location: XcmLocation) => ({
+  [`V${version}`]: version === 3 ? { Concrete: toLocation(version, location) } : toLocation(version, location),
+})
+
+const toAsset = (version: number, location: XcmLocation, amount: string) => ({
+  id: version === 3 ? { Concrete: toLocation(version, location) } : toLocation(version, location),
+  fun: { Fungible: amount },
+})
+
+export const toVersionedAssets = (version: number, location: XcmLocation, amount: string) => ({
+  [`V${version}`]: [toAsset(version, location, amount)],
+})
+
+// XCM executed on the destination of a remote-reserve transfer: deposit everything to the beneficiary
+export const toVersionedDepositXcm = (version: number, beneficiary: XcmLocation) => ({
+  [`V${version}`]: [
+    {
+      DepositAsset: {
+        assets: { Wild: { AllCounted: 1 } },
+        beneficiary: toLocation(version, beneficiary),
+      },
+    },
+  ],
+})
+
+// How a chain on the way receives the DOT, which decides the message it executes
+export type IncomingTransfer =
+  // Destination of a transfer from the reserve: ReserveAssetDeposited, then deposit
+  | { type: "reserveDeposit"; beneficiary: XcmLocation }
+  // The reserve itself as destination: WithdrawAsset from the sender's sovereign account, then deposit
+  | { type: "reserveWithdraw"; beneficiary: XcmLocation }
+  // A remote reserve in the middle: WithdrawAsset, then DepositReserveAsset on to `destination`,
+  // which refers to DOT as `forwardedLocation`
+  | { type: "reserveForward"; destination: XcmLocation; forwardedLocation: XcmLocation; beneficiary: XcmLocation }
+
+// One chain an XCM transfer executes on, null when we are not connected to it
+export interface XcmHop {
+  api: ApiPromise | null
+  // DOT as this chain refers to it
+  location: XcmLocation
+  incoming: IncomingTransfer
+}
+
+const toDepositAsset = (version: number, beneficiary: XcmLocation) => ({
+  DepositAsset: {
+    assets: { Wild: { AllCounted: 1 } },
+    beneficiary: toLocation(version, beneficiary),
+  },
+})
+
+// Message a chain receives for its part of a transfer, as pallet-xcm builds it, used to weigh its execution
+export const toVersionedIncomingTransferXcm = (
+  version: number,
+  location: XcmLocation,
+  amount: string,
+  incoming: IncomingTransfer
+) => {
+  const asset = toAsset(version, location, amount)
+  const buyExecution = { BuyExecution: { fees: asset, weightLimit: { Unlimited: null } } }
+
+  if (incoming.type === "reserveForward") {
+    const forwarded = toAsset(version, incoming.forwardedLocation, amount)
+    return {
+      [`V${version}`]: [
+        { WithdrawAsset: [asset] },
+        { ClearOrigin: null },
+        buyExecution,
+        {
+          DepositReserveAsset: {
+            assets: { Wild: { AllCounted: 1 } },
+            dest: toLocation(version, incoming.destination),
+            xcm: [
+              { BuyExecution: { fees: forwarded, weightLimit: { Unlimited: null } } },
+              toDepositAsset(version, incoming.beneficiary),
+            ],
+          },
+        },
+      ],
+    }
+  }
+
+  return {
+    [`V${version}`]: [
+      incoming.type === "reserveWithdraw" ? { WithdrawAsset: [asset] } : { ReserveAssetDeposited: [asset] },
+      { ClearOrigin: null },
+      buyExecution,
+      toDepositAsset(version, incoming.beneficiary),
+    ],
+  }
+}
+
+// Version the source chain has recorded for `dest`, falling back to its safe default.
+// pallet-xcm keys SupportedVersion by its own current XCM version, with `dest` encoded in it.
+const queryRemoteXcmVersion = async (
+  api: ApiPromise,
+  pallet: XcmPalletName,
+  sourceVersion: number,
+  dest: XcmLocation
+): Promise<number | undefined> => {
+  const query = api.query[pallet]
+  const canEncodeKey = sourceVersion >= MIN_XCM_VERSION && sourceVersion <= MAX_XCM_VERSION
+
+  if (query.supportedVersion && canEncodeKey) {
+    const supported = (await query.supportedVersion(sourceVersion, toVersionedLocation(sourceVersion, dest))) as Option<u32>
+    if (supported.isSome) return supported.unwrap().toNumber()
+  }
+
+  if (query.safeXcmVersion) {
+    const safe = (await query.safeXcmVersion()) as Option<u32>
+    if (safe.isSome) return safe.unwrap().toNumber()
+  }
+
+  return undefined
+}
+
+// Pick the highest XCM version understood by the source runtime, every chain the message
+// passes through, and whatever the source has negotiated with the destination
+export const negotiateXcmVersion = async (
+  source: ApiPromise,
+  dest: XcmLocation,
+  remotes: (ApiPromise | null)[] = []
+): Promise<XcmVersionInfo> => {
+  const pallet = getXcmPalletName(source)
+  const sourceVersions = getSupportedXcmVersions(source, pallet)
+  let candidates = sourceVersions.filter(
+    (version) => version >= MIN_XCM_VERSION && version <= MAX_XCM_VERSION
+  )
+
+  for (const remote of remotes) {
+    if (!remote) continue
+    const remoteVersions = getSupportedXcmVersions(remote)
+    candidates = candidates.filter((version) => remoteVersions.includes(version))
+  }
+
+  if (candidates.length === 0) {
+    throw new Error("Source and destination chains have no XCM version in common")
+  }
+
+  // Keyed by the source's own version, not by what is left after intersecting with the remotes
+  const sourceMax = sourceVersions[sourceVersions.length - 1]
+  const remoteVersion = await queryRemoteXcmVersion(source, pallet, sourceMax, dest)
+  const usable = remoteVersion === undefined ? candidates : candidates.filter((version) => version <= remoteVersion)
+
+  if (usable.length === 0) {
+    throw new Error(`Destination only supports XCM v${remoteVersion}, which is not supported here`)
+  }
+
+  return { pallet, version: usable[usable.length - 1] }
+}
+
+// Weight a chain reports for executing its part of an incoming transfer
+export const queryIncomingTransferWeight = async (
+  api: ApiPromise,
+  version: number,
+  location: XcmLocation,
+  amount: string,
+  incoming: IncomingTransfer
+): Promise<XcmWeight | undefined> => {
+  if (!api.call.xcmPaymentApi?.queryXcmWeight) return undefined
+
+  const message = toVersionedIncomingTransferXcm(version, location, amount, incoming)
+  const result: any = await api.call.xcmPaymentApi.queryXcmWeight(message)
+
+  if (result.isErr) {
+    console.warn("Destination weight query failed:", result.asErr.toString())
+    return undefined
+  }
+
+  return {
+    refTime: result.asOk.refTime.toString(),
+    proofSize: result.asOk.proofSize.toString(),
+  }
+}
+
+// Whether the pallet's WeightLimit type still has an Unlimited variant
+const allowsUnlimitedWeight = (api: ApiPromise, pallet: XcmPalletName) => {
+  const { meta } = api.tx[pallet].limitedReserveTransferAssets
+  const arg = meta.args.find(({ name }) => name.toString() === "weight_limit")
+  if (!arg) return false
+
+  const weightLimit = api.registry.createType(arg.type.toString()) as unknown as Enum
+  return weightLimit.defKeys.includes("Unlimited")
+}
+
+const withMargin = (value: string) =>
+  (BigInt(value) * BigInt(WEIGHT_LIMIT_MARGIN) / BigInt(100)).toString()
+
+const maxBigInt = (values: string[]) =>
+  values.reduce((max, value) => (BigInt(value) > BigInt(max) ? value : max), "0")
+
+// Weight limit for BuyExecution. pallet-xcm uses the same limit on every hop, so it has to cover
+// the heaviest one: the largest estimate plus headroom, or Unlimited when a hop cannot be asked
+// and the source runtime accepts that
+export const resolveWeightLimit = async (
+  source: ApiPromise,
+  pallet: XcmPalletName,
+  hops: XcmHop[],
+  version: number,
+  amount: string
+): Promise<XcmWeightLimit> => {
+  const weights = await Promise.all(hops.map(({ api, location, incoming }) =>
+    api ? queryIncomingTransferWeight(api, version, location, amount, incoming) : undefined
+  ))
+  const known = weights.filter((weight): weight is XcmWeight => !!weight)
+
+  if (known.length === hops.length || (known.length > 0 && !allowsUnlimitedWeight(source, pallet))) {
+    return {
+      Limited: {
+        refTime: withMargin(maxBigInt(known.map(({ refTime }) => refTime))),
+        proofSize: withMargin(maxBigInt(known.map(({ proofSize }) => proofSize))),
+      },
+    }
+  }
+
+  if (allowsUnlimitedWeight(source, pallet)) return { Unlimited: null }
+
+  throw new Error("Could not determine a weight limit for the destination chain")
+}
+
+export const describeWeightLimit = (limit: XcmWeightLimit) =>
+  "Limited" in limit
+    ? `refTime ${limit.Limited.refTime}, proofSize ${limit.Limited.proofSize}`
+    : "Unlimited"